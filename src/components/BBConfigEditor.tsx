@@ -1,78 +1,609 @@
-import { useState, useCallback } from 'react';
-import { Upload, FileJson, Download, RotateCcw, ChevronDown, ChevronRight, Search, X } from 'lucide-react';
-import { parseJsonWithComments, serializeWithComments, formatKeyName, isChildSetting } from '@/lib/jsonParser';
+import { useState, useCallback, useMemo, useEffect, useRef } from 'react';
+import { Upload, FileJson, Download, RotateCcw, ChevronDown, ChevronRight, Search, X, Wrench, Undo2, Redo2, History, Undo, Filter, ArrowUpCircle, GitCompare, FileDiff, Library, Share2, Save, FolderOpen, PackagePlus } from 'lucide-react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  parseJsonWithComments,
+  serializeWithComments,
+  formatKeyName,
+  isChildSetting,
+  buildSectionTree,
+  extractSections,
+  withUnsectionedKeys,
+  verifySerializedOutput,
+  DEFAULT_SECTION_MARKER,
+  UNSECTIONED,
+} from '@/lib/jsonParser';
+import { JsoncParseError, type JsoncDiagnostic } from '@/lib/jsonc';
+import type { JsoncDocument } from '@/lib/jsoncDocument';
+import { repairJsonc, type RepairResult } from '@/lib/jsoncRepair';
+import { ParseErrorView } from './ParseErrorView';
+import { RepairReview } from './RepairReview';
+import { ValueField } from './ValueEditor';
+import { SectionSidebar } from './SectionSidebar';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { useScrollSpy } from '@/hooks/use-scroll-spy';
+import { useEditHistory } from '@/hooks/use-edit-history';
+import { useUndoShortcuts } from '@/hooks/use-undo-shortcuts';
+import { HistoryPanel } from './HistoryPanel';
+import { ExportDialog } from './ExportDialog';
+import { UpgradeDialog, type UpgradeOutcome } from './UpgradeDialog';
+import { MigrationReview } from './MigrationReview';
+import { PatchDialog } from './PatchDialog';
+import { RecentSessions } from './RecentSessions';
+import { ProfilesPanel } from './ProfilesPanel';
+import type { Profile } from '@/lib/profileStore';
+import { SharedChanges } from './SharedChanges';
+import { createPatch, type JsonPatchOperation } from '@/lib/jsonPatch';
+import { MAX_SHARE_URL_LENGTH, SHARE_PARAM, buildShareUrl, decodeSharePayload, encodeSharePayload } from '@/lib/shareLink';
+import { createSessionId, deleteSession, listSessions, saveSession, serializeSession, type StoredSession } from '@/lib/sessionStore';
+import { useAutosave } from '@/hooks/use-autosave';
+import { migrateConfig, type MigrationReport } from '@/lib/migrations';
+import { toast } from 'sonner';
+import { valuesEqual } from '@/lib/jsonValue';
+import { downloadBlob, downloadText } from '@/lib/download';
+import {
+  hasChangedOnDisk,
+  openFileWithPicker,
+  requestDropHandle,
+  saveFileAs,
+  supportsFileSystemAccess,
+  toOpenedFile,
+  writeOpenedFile,
+  type OpenedFile,
+} from '@/lib/fileAccess';
+import {
+  openPackWithPicker,
+  scanDirectoryEntry,
+  scanDirectoryHandle,
+  supportsDirectoryPicker,
+  findGlobalVariables,
+  readManifestInfo,
+  type PackFile,
+  type PackFolder,
+} from '@/lib/packFolder';
+import { PackBrowser } from './PackBrowser';
+import { isPackArchiveName, readPackArchive, rebuildPackArchive } from '@/lib/packArchive';
+import { bumpManifest, type ManifestBumpOptions } from '@/lib/packManifest';
+import { PackManifestSummary } from './PackManifestSummary';
+import { OverridePackDialog } from './OverridePackDialog';
+import { DEFAULT_OVERRIDE_PATH, type OverridePackOptions } from '@/lib/overridePack';
 
 interface ConfigData {
   [key: string]: unknown;
 }
 
+const categoryElementId = (category: string) => `category-${category.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+const sectionElementId = (section: string) => `section-${section.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+
+const SECTION_MARKER_STORAGE_PREFIX = 'bb-config-editor:section-marker:';
+
+// The header style is remembered per file name, since forks and packs use different conventions
+const loadSectionMarker = (name: string) =>
+  localStorage.getItem(SECTION_MARKER_STORAGE_PREFIX + name) ?? DEFAULT_SECTION_MARKER;
+
+interface LoadError {
+  message: string;
+  diagnostic?: JsoncDiagnostic;
+  source?: string;
+  fileName?: string;
+}
+
 export const BBConfigEditor = () => {
-  const [data, setData] = useState<ConfigData | null>(null);
+  const history = useEditHistory<ConfigData>();
+  const { present: data, reset: resetHistory, restore: restoreHistory, commit: commitHistory, undo, redo } = history;
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [sections, setSections] = useState<Map<string, string[]>>(new Map());
+  const [sourceDocument, setSourceDocument] = useState<JsoncDocument | null>(null);
   const [originalData, setOriginalData] = useState<ConfigData | null>(null);
+  // Snapshot as of the last load, export or profile save; null when unknown
+  const [savedData, setSavedData] = useState<ConfigData | null>(null);
   const [fileName, setFileName] = useState('');
   const [isDragging, setIsDragging] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<LoadError | null>(null);
+  const [repair, setRepair] = useState<RepairResult | null>(null);
   const [expandedSections, setExpandedSections] = useState<Set<string>>(new Set());
   const [searchQuery, setSearchQuery] = useState('');
+  const [sectionMarker, setSectionMarker] = useState(DEFAULT_SECTION_MARKER);
+  const [showModifiedOnly, setShowModifiedOnly] = useState(false);
+  // Serialized output waiting for the user to review the diff
+  const [pendingExport, setPendingExport] = useState<string | null>(null);
+  // Handle of a file opened through the File System Access API, so Save writes back to it
+  const [openedFile, setOpenedFile] = useState<OpenedFile | null>(null);
+  const [diskConflict, setDiskConflict] = useState(false);
+  // Resource pack folder the open file belongs to, and the file's path inside it
+  const [pack, setPack] = useState<PackFolder | null>(null);
+  const [packPath, setPackPath] = useState<string | null>(null);
+  const [manifestBump, setManifestBump] = useState<ManifestBumpOptions>({ version: true, uuids: false });
+  const [pendingPackFile, setPendingPackFile] = useState<PackFile | null>(null);
+  const editorRef = useRef<HTMLDivElement>(null);
+  // Edits to other files of the pack, kept while switching between them
+  const packStash = useRef(new Map<string, { session: StoredSession<ConfigData>; openedFile: OpenedFile | null }>());
+  const [isUpgradeOpen, setIsUpgradeOpen] = useState(false);
+  const [isPatchOpen, setIsPatchOpen] = useState(false);
+  const [isOverrideOpen, setIsOverrideOpen] = useState(false);
+  // Autosave slot for the open file; null until a file is loaded or restored
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [recentSessions, setRecentSessions] = useState<StoredSession<ConfigData>[]>([]);
+  const [isProfilesOpen, setIsProfilesOpen] = useState(false);
+  // Profile the open config came from, so it can be updated in place
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Changes from a share link, waiting to be applied to an uploaded file
+  const [sharedPatch, setSharedPatch] = useState<JsonPatchOperation[] | null>(null);
+  const sharePayload = searchParams.get(SHARE_PARAM);
+  // Pending key migrations for a file written for an older $bb_version
+  const [migration, setMigration] = useState<MigrationReport | null>(null);
 
-  const handleFile = useCallback((file: File) => {
+  const loadText = useCallback((text: string, name: string): boolean => {
     setError(null);
-    
+    setRepair(null);
+
+    try {
+      const marker = loadSectionMarker(name);
+      const { data: parsed, sections: parsedSections, document: parsedDocument } = parseJsonWithComments(text, {
+        sectionMarker: marker,
+      });
+      resetHistory(parsed as ConfigData);
+      setOriginalData(JSON.parse(JSON.stringify(parsed)));
+      setSavedData(parsed as ConfigData);
+      setSections(parsedSections);
+      setSourceDocument(parsedDocument);
+      setFileName(name);
+      setSectionMarker(marker);
+      setExpandedSections(new Set([UNSECTIONED, ...parsedSections.keys()]));
+      setMigration(migrateConfig(parsed as ConfigData));
+      setSessionId(createSessionId());
+      setActiveProfileId(null);
+      setOpenedFile(null);
+      setPackPath(null);
+      return true;
+    } catch (err) {
+      setError({
+        message: (err as Error).message,
+        diagnostic: err instanceof JsoncParseError ? err.diagnostic : undefined,
+        source: text,
+        fileName: name,
+      });
+      return false;
+    }
+  }, [resetHistory]);
+
+  const openPack = useCallback((folder: PackFolder) => {
+    packStash.current.clear();
+    setPack(folder);
+    setPackPath(null);
+    // Archives go straight to their global variables file
+    if (folder.archive) setPendingPackFile(findGlobalVariables(folder));
+  }, []);
+
+  const handleFile = useCallback((file: File, opened: OpenedFile | null = null) => {
     const reader = new FileReader();
+
+    if (isPackArchiveName(file.name)) {
+      reader.onload = (e) => {
+        readPackArchive(new Uint8Array(e.target?.result as ArrayBuffer), file.name)
+          .then(openPack)
+          .catch(err => toast.error("Couldn't open pack", { description: (err as Error).message }));
+      };
+      reader.readAsArrayBuffer(file);
+      return;
+    }
+
     reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        const { data: parsed, sections: parsedSections } = parseJsonWithComments(text);
-        setData(parsed as ConfigData);
-        setOriginalData(JSON.parse(JSON.stringify(parsed)));
-        setSections(parsedSections);
-        setFileName(file.name);
-        setExpandedSections(new Set(parsedSections.keys()));
-      } catch (err) {
-        setError((err as Error).message);
-      }
+      if (loadText(e.target?.result as string, file.name)) setOpenedFile(opened);
     };
     reader.readAsText(file);
-  }, []);
+  }, [loadText, openPack]);
+
+  const handleOpen = useCallback(async () => {
+    if (!supportsFileSystemAccess()) {
+      document.getElementById('file-input')?.click();
+      return;
+    }
+
+    try {
+      const picked = await openFileWithPicker();
+      if (picked) handleFile(picked.file, picked.opened);
+    } catch (err) {
+      toast.error("Couldn't open file", { description: (err as Error).message });
+    }
+  }, [handleFile]);
+
+  const handleRepair = useCallback(() => {
+    if (error?.source !== undefined) {
+      setRepair(repairJsonc(error.source));
+    }
+  }, [error]);
+
+  const handleAcceptRepair = useCallback(() => {
+    if (repair && error?.fileName) {
+      loadText(repair.text, error.fileName);
+    }
+  }, [repair, error, loadText]);
+
+  const handleAcceptMigration = useCallback(() => {
+    if (!migration) return;
+    commitHistory(migration.data, { label: `Migrate to ${migration.toVersion}` });
+    setMigration(null);
+  }, [migration, commitHistory]);
+
+  const getCurrentConfig = useCallback(() => {
+    if (!data) return null;
+    const text = serializeWithComments(data, sections, sourceDocument ?? undefined);
+    const problem = verifySerializedOutput(text, data);
+    if (problem) {
+      toast.error("Couldn't save profile", { description: problem });
+      return null;
+    }
+    return { text, fileName };
+  }, [data, sections, sourceDocument, fileName]);
+
+  const markSaved = useCallback(() => setSavedData(data), [data]);
+
+  const handleOpenProfile = useCallback((profile: Profile) => {
+    if (loadText(profile.text, profile.fileName)) {
+      setActiveProfileId(profile.id);
+      setIsProfilesOpen(false);
+    }
+  }, [loadText]);
+
+  useEffect(() => {
+    if (!sharePayload) return;
+    let cancelled = false;
+    decodeSharePayload(sharePayload)
+      .then(operations => !cancelled && setSharedPatch(operations))
+      .catch(err => !cancelled && toast.error("Couldn't open share link", { description: (err as Error).message }));
+    return () => {
+      cancelled = true;
+    };
+  }, [sharePayload]);
+
+  const dismissSharedPatch = useCallback(() => {
+    setSharedPatch(null);
+    setSearchParams(params => {
+      params.delete(SHARE_PARAM);
+      return params;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  const handleApplySharedPatch = useCallback((next: ConfigData) => {
+    commitHistory(next, { label: 'Apply shared changes' });
+    dismissSharedPatch();
+  }, [commitHistory, dismissSharedPatch]);
+
+  const handleCopyShareLink = useCallback(async () => {
+    if (!data || !originalData) return;
+    const operations = createPatch(originalData, data);
+    if (operations.length === 0) {
+      toast('Nothing to share yet', { description: 'Change some settings first; the link only carries your changes.' });
+      return;
+    }
+
+    try {
+      const url = buildShareUrl(await encodeSharePayload(operations));
+      if (url.length > MAX_SHARE_URL_LENGTH) {
+        toast.error('Too many changes for a share link', {
+          description: `The link would be ${url.length} characters. Share a patch file instead.`,
+          action: { label: 'Export patch', onClick: () => setIsPatchOpen(true) },
+        });
+        return;
+      }
+      await navigator.clipboard.writeText(url);
+      toast.success('Share link copied', {
+        description: `${operations.length} change${operations.length === 1 ? '' : 's'}, ${url.length} characters`,
+      });
+    } catch (err) {
+      toast.error("Couldn't copy share link", { description: (err as Error).message });
+    }
+  }, [data, originalData]);
+
+  const handleApplyPatch = useCallback((next: ConfigData, label: string) => {
+    commitHistory(next, { label });
+    setIsPatchOpen(false);
+  }, [commitHistory]);
+
+  // The merged data is opened on top of the new default, so its sections and comments are kept
+  // and the user's customisations show up as modified settings. An open file keeps its name,
+  // save-in-place handle and pack entry, since the upgrade replaces that same document.
+  const handleUpgrade = useCallback((outcome: UpgradeOutcome) => {
+    setIsUpgradeOpen(false);
+    if (loadText(outcome.text, data ? fileName : outcome.name)) {
+      commitHistory(outcome.data, { label: outcome.label });
+      if (data) {
+        setOpenedFile(openedFile);
+        setPackPath(packPath);
+      }
+    }
+  }, [data, fileName, openedFile, packPath, loadText, commitHistory]);
+
+  const handleOpenPackFolder = useCallback(async () => {
+    try {
+      const folder = await openPackWithPicker();
+      if (folder) openPack(folder);
+    } catch (err) {
+      toast.error("Couldn't open folder", { description: (err as Error).message });
+    }
+  }, [openPack]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
+    // Both the handle and the entry have to be requested while the drop event is still being handled
+    const item = e.dataTransfer.items?.[0];
+    const entry = item?.webkitGetAsEntry?.() ?? null;
+    const handleRequest = requestDropHandle(item);
+
+    if (entry?.isDirectory) {
+      handleRequest
+        .then(handle => handle?.kind === 'directory'
+          ? scanDirectoryHandle(handle as FileSystemDirectoryHandle)
+          : scanDirectoryEntry(entry as FileSystemDirectoryEntry))
+        .then(openPack)
+        .catch(err => toast.error("Couldn't read folder", { description: (err as Error).message }));
+      return;
+    }
+
     const file = e.dataTransfer.files[0];
-    if (file) handleFile(file);
-  }, [handleFile]);
+    if (!file) return;
+    handleRequest
+      .then(handle => (handle?.kind === 'file' ? toOpenedFile(handle as FileSystemFileHandle) : null))
+      .catch(() => null)
+      .then(opened => handleFile(file, opened));
+  }, [handleFile, openPack]);
 
   const handleExport = useCallback(() => {
     if (!data) return;
     
-    const output = serializeWithComments(data, sections);
-    const blob = new Blob([output], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = fileName;
-    a.click();
-    URL.revokeObjectURL(url);
-  }, [data, sections, fileName]);
+    const output = serializeWithComments(data, sections, sourceDocument ?? undefined);
+    const problem = verifySerializedOutput(output, data);
+    if (problem) {
+      toast.error('Export cancelled', { description: problem });
+      return;
+    }
+
+    setPendingExport(output);
+  }, [data, sections, sourceDocument]);
+
+  const closeExport = useCallback(() => {
+    setPendingExport(null);
+    setDiskConflict(false);
+  }, []);
+
+  // A file saved elsewhere with Save As keeps saving there, not into the archive it came from
+  const exportsArchive = Boolean(pack?.archive && packPath && !openedFile);
+  const packFileHandle = pack?.configs.find(config => config.path === packPath)?.handle;
+  // The manifest can only be bumped where it is written back together with the file
+  const canBumpManifest = Boolean(
+    packPath && pack?.manifestFile && (exportsArchive || (pack.manifestFile.handle && openedFile?.handle === packFileHandle)),
+  );
+
+  // Memoized so the override dialog only refills its fields when it opens
+  const overrideDefaults = useMemo<OverridePackOptions>(() => {
+    const baseName = pack?.manifest?.name ?? 'Better Bedrock';
+    return {
+      name: `${baseName} Overrides`,
+      description: `Overrides for ${baseName}`,
+      baseUuid: pack?.manifest?.uuid ?? '',
+      baseVersion: pack?.manifest?.version ?? '',
+      path: packPath ?? DEFAULT_OVERRIDE_PATH,
+    };
+  }, [pack, packPath]);
+
+  const updatePackManifest = useCallback((text: string) => {
+    setPack(prev => prev && { ...prev, manifest: readManifestInfo(text), manifestFile: { ...prev.manifestFile, text } });
+  }, []);
+
+  const handleConfirmExport = useCallback(async () => {
+    if (pendingExport === null) return;
+
+    try {
+      const manifestText = canBumpManifest && (manifestBump.version || manifestBump.uuids)
+        ? bumpManifest(pack.manifestFile.text, manifestBump)
+        : null;
+
+      if (exportsArchive) {
+        const replacements: Record<string, string> = { [packPath]: pendingExport };
+        packStash.current.forEach(({ session: stashed }, path) => {
+          if (path !== packPath) replacements[path] = serializeSession(stashed);
+        });
+        // Earlier bumps live only in memory, so the manifest is always written
+        if (pack.manifestFile) replacements['manifest.json'] = manifestText ?? pack.manifestFile.text;
+        const bytes = rebuildPackArchive(pack.archive, replacements);
+        downloadBlob(new Blob([bytes], { type: 'application/zip' }), pack.archive.fileName);
+        if (manifestText !== null) updatePackManifest(manifestText);
+        setSavedData(data);
+        closeExport();
+        return;
+      }
+
+      if (!openedFile) {
+        downloadText(pendingExport, fileName);
+        setSavedData(data);
+        closeExport();
+        return;
+      }
+
+      // A second confirmation while the conflict is shown means overwrite
+      if (!diskConflict && await hasChangedOnDisk(openedFile)) {
+        setDiskConflict(true);
+        return;
+      }
+      setOpenedFile(await writeOpenedFile(openedFile, pendingExport));
+      if (manifestText !== null && pack?.manifestFile?.handle) {
+        await writeOpenedFile({ handle: pack.manifestFile.handle, lastModified: 0 }, manifestText);
+        updatePackManifest(manifestText);
+      }
+      setSavedData(data);
+      closeExport();
+      toast.success(`Saved ${fileName}`);
+    } catch (err) {
+      toast.error("Couldn't save", { description: (err as Error).message });
+    }
+  }, [pendingExport, canBumpManifest, manifestBump, exportsArchive, pack, packPath, openedFile, diskConflict, fileName, data, updatePackManifest, closeExport]);
+
+  const handleSaveAs = useCallback(async () => {
+    if (pendingExport === null) return;
+
+    try {
+      const saved = await saveFileAs(pendingExport, fileName);
+      if (!saved) return;
+      setOpenedFile(saved);
+      setFileName(saved.handle.name);
+      setSavedData(data);
+      closeExport();
+      toast.success(`Saved ${saved.handle.name}`);
+    } catch (err) {
+      toast.error("Couldn't save", { description: (err as Error).message });
+    }
+  }, [pendingExport, fileName, data, closeExport]);
 
   const handleReset = useCallback(() => {
     if (originalData) {
-      setData(JSON.parse(JSON.stringify(originalData)));
+      commitHistory(JSON.parse(JSON.stringify(originalData)), { label: 'Reset all changes' });
     }
-  }, [originalData]);
+  }, [originalData, commitHistory]);
 
   const handleNewFile = useCallback(() => {
-    setData(null);
+    resetHistory(null);
     setSections(new Map());
+    setSourceDocument(null);
     setOriginalData(null);
+    setSavedData(null);
     setFileName('');
     setError(null);
+    setRepair(null);
+    setPendingExport(null);
+    setOpenedFile(null);
+    setMigration(null);
+    setSessionId(null);
+    setActiveProfileId(null);
+    setPack(null);
+    setPackPath(null);
+    packStash.current.clear();
+  }, [resetHistory]);
+
+  const handleRestoreSession = useCallback((session: StoredSession<ConfigData>) => {
+    try {
+      const { data: parsed, sections: parsedSections, document: parsedDocument } = parseJsonWithComments(session.originalText, {
+        sectionMarker: session.sectionMarker,
+      });
+      restoreHistory(session.history);
+      setOriginalData(parsed as ConfigData);
+      setSavedData(null);
+      setSections(parsedSections);
+      setSourceDocument(parsedDocument);
+      setFileName(session.fileName);
+      setSectionMarker(session.sectionMarker);
+      setExpandedSections(new Set(session.expandedSections));
+      setError(null);
+      setRepair(null);
+      setSessionId(session.id);
+      setPackPath(null);
+    } catch (err) {
+      toast.error("Couldn't restore session", { description: (err as Error).message });
+    }
+  }, [restoreHistory]);
+
+  const handleDeleteSession = useCallback((id: string) => {
+    setRecentSessions(prev => prev.filter(session => session.id !== id));
+    deleteSession(id).catch(err => console.error('Failed to delete session:', err));
   }, []);
 
+  const handleSectionMarkerChange = useCallback((marker: string) => {
+    if (!sourceDocument) return;
+    const nextSections = extractSections(sourceDocument, marker);
+    localStorage.setItem(SECTION_MARKER_STORAGE_PREFIX + fileName, marker);
+    setSectionMarker(marker);
+    setSections(nextSections);
+    setExpandedSections(new Set([UNSECTIONED, ...nextSections.keys()]));
+  }, [sourceDocument, fileName]);
+
   const updateValue = useCallback((key: string, value: unknown) => {
-    setData(prev => prev ? { ...prev, [key]: value } : null);
-  }, []);
+    if (!data) return;
+    commitHistory({ ...data, [key]: value }, {
+      label: `Edit ${formatKeyName(key)}`,
+      key,
+      oldValue: data[key],
+      newValue: value,
+      coalesce: true,
+    });
+  }, [data, commitHistory]);
+
+  const revertValue = useCallback((key: string) => {
+    if (!data || !originalData) return;
+    const next = { ...data };
+    if (key in originalData) {
+      next[key] = JSON.parse(JSON.stringify(originalData[key]));
+    } else {
+      delete next[key];
+    }
+    commitHistory(next, {
+      label: `Revert ${formatKeyName(key)}`,
+      key,
+      oldValue: data[key],
+      newValue: originalData[key],
+    });
+  }, [data, originalData, commitHistory]);
+
+  const session = useMemo((): StoredSession<ConfigData> | null => {
+    if (!data || !sessionId || !sourceDocument) return null;
+    return {
+      id: sessionId,
+      fileName,
+      originalText: sourceDocument.text,
+      sectionMarker,
+      expandedSections: [...expandedSections],
+      history: history.state,
+      updatedAt: 0,
+    };
+  }, [data, sessionId, sourceDocument, fileName, sectionMarker, expandedSections, history.state]);
+
+  const persistSession = useCallback(
+    (next: StoredSession<ConfigData>) => saveSession({ ...next, updatedAt: Date.now() }),
+    [],
+  );
+  useAutosave(session, persistSession);
+
+  // Switching files inside a pack keeps the edits of the file being left
+  const handleOpenPackFile = useCallback(async (file: PackFile) => {
+    if (file.path === packPath) return;
+    if (session && packPath) packStash.current.set(packPath, { session, openedFile });
+
+    try {
+      const stashed = packStash.current.get(file.path);
+      if (stashed) {
+        handleRestoreSession(stashed.session);
+        setOpenedFile(stashed.openedFile);
+        setPackPath(file.path);
+        return;
+      }
+
+      const text = await (await file.getFile()).text();
+      const opened = file.handle ? await toOpenedFile(file.handle) : null;
+      if (loadText(text, file.name)) {
+        setOpenedFile(opened);
+        setPackPath(file.path);
+      }
+    } catch (err) {
+      toast.error(`Couldn't open ${file.path}`, { description: (err as Error).message });
+    }
+  }, [packPath, session, openedFile, handleRestoreSession, loadText]);
+
+  useEffect(() => {
+    if (!pendingPackFile) return;
+    setPendingPackFile(null);
+    handleOpenPackFile(pendingPackFile);
+  }, [pendingPackFile, handleOpenPackFile]);
+
+  // Offer the saved sessions whenever the upload screen shows
+  useEffect(() => {
+    if (data) return;
+    listSessions<ConfigData>()
+      .then(setRecentSessions)
+      .catch(err => console.error('Failed to list sessions:', err));
+  }, [data]);
+
+  useUndoShortcuts(editorRef, { enabled: data !== null, undo, redo });
 
   const toggleSection = useCallback((section: string) => {
     setExpandedSections(prev => {
@@ -86,55 +617,75 @@ export const BBConfigEditor = () => {
     });
   }, []);
 
-  const renderValue = (key: string, value: unknown) => {
-    if (typeof value === 'boolean') {
-      return (
-        <button
-          onClick={() => updateValue(key, !value)}
-          className={`discord-toggle flex-shrink-0 ${value ? 'active' : ''}`}
-          aria-label={value ? 'Enabled' : 'Disabled'}
-        />
-      );
-    }
+  const modifiedKeys = useMemo(() => {
+    if (!data || !originalData) return new Set<string>();
+    const keys = new Set([...Object.keys(data), ...Object.keys(originalData)]);
+    return new Set([...keys].filter(key => !valuesEqual(data[key], originalData[key])));
+  }, [data, originalData]);
 
-    if (typeof value === 'number') {
-      return (
-        <input
-          type="number"
-          value={value}
-          onChange={(e) => updateValue(key, parseFloat(e.target.value) || 0)}
-          className="discord-input w-20 text-center flex-shrink-0"
-        />
-      );
-    }
+  // Edits that would be lost by opening something else in place of the file
+  const hasUnsavedEdits = data !== null && data !== savedData && modifiedKeys.size > 0;
 
-    if (typeof value === 'string') {
-      return (
-        <input
-          type="text"
-          value={value}
-          onChange={(e) => updateValue(key, e.target.value)}
-          className="discord-input w-32 sm:w-40 flex-shrink-0"
-        />
-      );
-    }
+  const filterSettings = useCallback((keys: string[]): string[] => {
+    const candidates = showModifiedOnly ? keys.filter(key => modifiedKeys.has(key)) : keys;
+    if (!searchQuery) return candidates;
+    const query = searchQuery.toLowerCase();
+    return candidates.filter(key => formatKeyName(key).toLowerCase().includes(query));
+  }, [searchQuery, showModifiedOnly, modifiedKeys]);
 
-    if (Array.isArray(value)) {
-      return (
-        <span className="text-muted-foreground text-xs bg-muted px-2 py-1 rounded flex-shrink-0">
-          Array [{value.length}]
-        </span>
-      );
-    }
+  // Keys no header covers (e.g. "namespace" in a file without headers) still get a group
+  const displaySections = useMemo(() => withUnsectionedKeys(sections, data ?? {}), [sections, data]);
+  const sectionTree = useMemo(() => buildSectionTree(displaySections), [displaySections]);
 
-    return null;
-  };
+  const visibleCategories = useMemo(() => {
+    return sectionTree
+      .map(category => ({
+        ...category,
+        subcategories: category.subcategories
+          .map(sub => ({ ...sub, keys: filterSettings(sub.keys) }))
+          .filter(sub => sub.keys.length > 0),
+      }))
+      .filter(category => category.subcategories.length > 0);
+  }, [sectionTree, filterSettings]);
 
-  const filterSettings = (keys: string[]): string[] => {
-    if (!searchQuery) return keys;
-    const query = searchQuery.toLowerCase();
-    return keys.filter(key => formatKeyName(key).toLowerCase().includes(query));
-  };
+  const currentFile = useMemo(() => (data ? { name: fileName, data } : null), [data, fileName]);
+
+  const categoryIds = useMemo(() => visibleCategories.map(category => categoryElementId(category.name)), [visibleCategories]);
+  const activeCategoryId = useScrollSpy(categoryIds);
+  const activeCategory = sectionTree.find(category => categoryElementId(category.name) === activeCategoryId)?.name ?? null;
+
+  const scrollToCategory = useCallback((category: string) => {
+    const sectionNames = sectionTree.find(item => item.name === category)?.subcategories.map(sub => sub.section) ?? [];
+    setExpandedSections(prev => new Set([...prev, ...sectionNames]));
+    document.getElementById(categoryElementId(category))?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, [sectionTree]);
+
+  const scrollToSection = useCallback((section: string) => {
+    setExpandedSections(prev => new Set([...prev, section]));
+    document.getElementById(sectionElementId(section))?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }, []);
+
+  const upgradeDialog = (
+    <UpgradeDialog
+      open={isUpgradeOpen}
+      onOpenChange={setIsUpgradeOpen}
+      current={currentFile}
+      onComplete={handleUpgrade}
+    />
+  );
+
+  const profilesPanel = (
+    <ProfilesPanel
+      open={isProfilesOpen}
+      onOpenChange={setIsProfilesOpen}
+      canSave={data !== null}
+      getCurrent={getCurrentConfig}
+      onSaved={markSaved}
+      hasUnsavedEdits={hasUnsavedEdits}
+      activeProfileId={activeProfileId}
+      onOpenProfile={handleOpenProfile}
+    />
+  );
 
   // Upload screen
   if (!data) {
@@ -171,7 +722,7 @@ export const BBConfigEditor = () => {
                   ? 'border-primary bg-primary/10' 
                   : 'border-border hover:border-primary/50 hover:bg-card/50'
               }`}
-              onClick={() => document.getElementById('file-input')?.click()}
+              onClick={handleOpen}
               onDrop={handleDrop}
               onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
               onDragLeave={() => setIsDragging(false)}
@@ -179,7 +730,7 @@ export const BBConfigEditor = () => {
               <input
                 id="file-input"
                 type="file"
-                accept=".json"
+                accept=".json,.mcpack,.zip"
                 onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
                 className="hidden"
               />
@@ -190,48 +741,333 @@ export const BBConfigEditor = () => {
                 {isDragging ? 'Drop your file here' : 'Click to upload'}
               </p>
               <p className="text-xs sm:text-sm text-muted-foreground text-center">
-                or drag and drop your JSON file
+                or drag and drop your JSON file, .mcpack or pack folder
               </p>
             </div>
 
-            {error && (
-              <div className="mt-4 p-3 sm:p-4 bg-destructive/10 border border-destructive/30 rounded-lg">
-                <p className="text-destructive text-xs sm:text-sm">{error}</p>
+            {sharedPatch && (
+              <div className="mt-4">
+                <SharedChanges operations={sharedPatch} data={null} onApply={handleApplySharedPatch} onDismiss={dismissSharedPatch} />
               </div>
             )}
+
+            <div className="mt-3 flex flex-wrap justify-center gap-2">
+              <button
+                onClick={() => setIsUpgradeOpen(true)}
+                className="discord-btn-secondary flex items-center gap-2 text-xs sm:text-sm px-3 py-1.5"
+              >
+                <ArrowUpCircle className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                Upgrade a customised config
+              </button>
+              {supportsDirectoryPicker() && (
+                <button
+                  onClick={handleOpenPackFolder}
+                  className="discord-btn-secondary flex items-center gap-2 text-xs sm:text-sm px-3 py-1.5"
+                >
+                  <FolderOpen className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                  Open pack folder
+                </button>
+              )}
+              <button
+                onClick={() => setIsProfilesOpen(true)}
+                className="discord-btn-secondary flex items-center gap-2 text-xs sm:text-sm px-3 py-1.5"
+              >
+                <Library className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                Profiles
+              </button>
+              {/* A new tab, so an open pack or shared link isn't dropped */}
+              <Link
+                to="/compare"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="discord-btn-secondary flex items-center gap-2 text-xs sm:text-sm px-3 py-1.5"
+              >
+                <GitCompare className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                Compare two configs
+              </Link>
+            </div>
+
+            {error && !repair && (
+              <>
+                <ParseErrorView {...error} />
+                {error.source !== undefined && (
+                  <button
+                    onClick={handleRepair}
+                    className="mt-3 discord-btn-secondary flex items-center gap-2 text-xs sm:text-sm px-3 py-1.5"
+                  >
+                    <Wrench className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                    Try to repair
+                  </button>
+                )}
+              </>
+            )}
+
+            {repair && (
+              <RepairReview result={repair} onAccept={handleAcceptRepair} onCancel={() => setRepair(null)} />
+            )}
+
+            {pack && <PackBrowser pack={pack} onOpen={handleOpenPackFile} onClose={handleNewFile} />}
+
+            {!error && !pack && (
+              <RecentSessions sessions={recentSessions} onRestore={handleRestoreSession} onDelete={handleDeleteSession} />
+            )}
           </div>
         </div>
+
+        {upgradeDialog}
+        {profilesPanel}
       </div>
     );
   }
 
-  const allKeys = Array.from(sections.values()).flat();
+  const allKeys = Array.from(displaySections.values()).flat();
+
+  const renderSection = (sectionName: string, title: string, keys: string[]) => {
+    const isExpanded = expandedSections.has(sectionName);
+    const modifiedCount = (displaySections.get(sectionName) ?? []).filter(key => modifiedKeys.has(key)).length;
+
+    return (
+      <div key={sectionName} id={sectionElementId(sectionName)} className="discord-card animate-fade-in p-3 sm:p-4 scroll-mt-28">
+        <button
+          onClick={() => toggleSection(sectionName)}
+          className="w-full flex items-center gap-2 text-left group"
+        >
+          <div className="w-5 h-5 flex items-center justify-center text-muted-foreground group-hover:text-foreground transition-colors flex-shrink-0">
+            {isExpanded ? (
+              <ChevronDown className="w-4 h-4" />
+            ) : (
+              <ChevronRight className="w-4 h-4" />
+            )}
+          </div>
+          <span className="flex-1 text-[10px] sm:text-xs font-semibold uppercase tracking-wide text-muted-foreground group-hover:text-foreground transition-colors truncate">
+            {title}
+          </span>
+          {modifiedCount > 0 && (
+            <span className="text-[10px] sm:text-xs font-medium text-[hsl(var(--discord-yellow))] flex-shrink-0">
+              {modifiedCount} modified
+            </span>
+          )}
+          <span className="text-[10px] sm:text-xs text-muted-foreground flex-shrink-0">
+            {keys.length}
+          </span>
+        </button>
+
+        {isExpanded && (
+          <div className="mt-2 sm:mt-3 space-y-0.5 sm:space-y-1">
+            {keys.map((key) => {
+              const value = data[key];
+              if (value === undefined) return null;
+
+              const isChild = isChildSetting(key, allKeys);
+
+              return (
+                <ValueField
+                  key={key}
+                  label={formatKeyName(key)}
+                  labelClassName={isChild ? 'text-muted-foreground pl-2 sm:pl-4' : 'text-foreground'}
+                  value={value}
+                  onChange={(next) => updateValue(key, next)}
+                  isModified={modifiedKeys.has(key)}
+                  actions={modifiedKeys.has(key) && (
+                    <button
+                      onClick={() => revertValue(key)}
+                      className="text-muted-foreground hover:text-foreground p-1 flex-shrink-0"
+                      aria-label={`Revert ${formatKeyName(key)}`}
+                      title="Revert to original value"
+                    >
+                      <Undo className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                />
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
 
   return (
-    <div className="min-h-screen bg-background">
-      {/* Header */}
-      <header className="sticky top-0 z-10 bg-card border-b border-border">
-        <div className="max-w-5xl mx-auto px-3 sm:px-6 py-3 flex items-center justify-between gap-2 sm:gap-4">
-          <div className="flex items-center gap-2 sm:gap-3 min-w-0">
-            <div className="w-7 h-7 sm:w-8 sm:h-8 bg-primary rounded-full flex items-center justify-center flex-shrink-0">
-              <FileJson className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-primary-foreground" />
+    <SidebarProvider>
+      <SectionSidebar
+        categories={sectionTree}
+        activeCategory={activeCategory}
+        onSelectCategory={scrollToCategory}
+        onSelectSection={scrollToSection}
+        sectionMarker={sectionMarker}
+        onSectionMarkerChange={handleSectionMarkerChange}
+      />
+
+      <SidebarInset ref={editorRef} className="bg-background min-w-0">
+        {/* Header */}
+        <header className="sticky top-0 z-10 bg-card border-b border-border">
+          <div className="max-w-5xl mx-auto px-3 sm:px-6 py-3 flex items-center justify-between gap-2 sm:gap-4">
+            <div className="flex items-center gap-2 sm:gap-3 min-w-0">
+              <SidebarTrigger className="flex-shrink-0 text-muted-foreground hover:text-foreground" />
+              <div className="w-7 h-7 sm:w-8 sm:h-8 bg-primary rounded-full flex items-center justify-center flex-shrink-0">
+                <FileJson className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-primary-foreground" />
+              </div>
+              <div className="flex flex-col min-w-0">
+                {pack && packPath ? (
+                  <PackManifestSummary pack={pack} />
+                ) : (
+                  <span className="font-semibold text-foreground text-xs sm:text-sm truncate">BB Config</span>
+                )}
+                {pack && packPath ? (
+                  <select
+                    value={packPath}
+                    onChange={(e) => {
+                      const file = pack.configs.find(config => config.path === e.target.value);
+                      if (file) handleOpenPackFile(file);
+                    }}
+                    className="bg-transparent text-[10px] sm:text-xs text-muted-foreground truncate max-w-48 sm:max-w-72 -ml-1"
+                    aria-label={`Files in ${pack.manifest?.name ?? pack.name}`}
+                    title={`${pack.manifest?.name ?? pack.name}: ${packPath}`}
+                  >
+                    {pack.configs.map(config => (
+                      <option key={config.path} value={config.path}>{config.path}</option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className="text-[10px] sm:text-xs text-muted-foreground truncate">{fileName}</span>
+                )}
+              </div>
             </div>
-            <div className="flex flex-col min-w-0">
-              <span className="font-semibold text-foreground text-xs sm:text-sm truncate">BB Config</span>
-              <span className="text-[10px] sm:text-xs text-muted-foreground truncate">{fileName}</span>
+
+            <div className="flex items-center gap-1.5 sm:gap-3 flex-shrink-0">
+              {/* Search - hidden on very small screens */}
+              <div className="relative hidden sm:block">
+                <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
+                <input
+                  type="text"
+                  placeholder="Search..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className="discord-input pl-9 pr-8 w-40 lg:w-56"
+                />
+                {searchQuery && (
+                  <button 
+                    onClick={() => setSearchQuery('')}
+                    className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+
+              <button
+                onClick={() => setShowModifiedOnly(prev => !prev)}
+                className={`${showModifiedOnly ? 'discord-btn' : 'discord-btn-secondary'} flex items-center gap-1 p-1.5 sm:px-3 sm:py-2 text-xs sm:text-sm`}
+                aria-pressed={showModifiedOnly}
+                title="Show modified settings only"
+              >
+                <Filter className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                <span className="hidden lg:inline">Modified</span>
+                {modifiedKeys.size > 0 && <span className="text-[10px] sm:text-xs opacity-80">{modifiedKeys.size}</span>}
+              </button>
+
+              <button onClick={handleNewFile} className="discord-btn-outline text-xs sm:text-sm px-2 sm:px-4 py-1.5 sm:py-2">
+                New
+              </button>
+              <div className="flex items-center gap-0.5 sm:gap-1">
+                <button
+                  onClick={undo}
+                  disabled={!history.canUndo}
+                  className="discord-btn-secondary p-1.5 sm:p-2 disabled:opacity-40"
+                  aria-label="Undo"
+                  title="Undo (Ctrl+Z)"
+                >
+                  <Undo2 className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={!history.canRedo}
+                  className="discord-btn-secondary p-1.5 sm:p-2 disabled:opacity-40"
+                  aria-label="Redo"
+                  title="Redo (Ctrl+Shift+Z)"
+                >
+                  <Redo2 className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                </button>
+                <button
+                  onClick={() => setIsHistoryOpen(true)}
+                  className="discord-btn-secondary p-1.5 sm:p-2"
+                  aria-label="Edit history"
+                  title="Edit history"
+                >
+                  <History className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                </button>
+              </div>
+              <button
+                onClick={() => setIsUpgradeOpen(true)}
+                className="discord-btn-secondary p-1.5 sm:p-2"
+                aria-label="Upgrade to a new version"
+                title="Upgrade to a new version"
+              >
+                <ArrowUpCircle className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              </button>
+              <button
+                onClick={() => setIsProfilesOpen(true)}
+                className="discord-btn-secondary p-1.5 sm:p-2"
+                aria-label="Profiles"
+                title="Profiles"
+              >
+                <Library className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              </button>
+              <button
+                onClick={handleCopyShareLink}
+                className="discord-btn-secondary p-1.5 sm:p-2"
+                aria-label="Copy share link"
+                title="Copy share link"
+              >
+                <Share2 className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              </button>
+              <button
+                onClick={() => setIsPatchOpen(true)}
+                className="discord-btn-secondary p-1.5 sm:p-2"
+                aria-label="JSON Patch"
+                title="Export or apply a JSON Patch"
+              >
+                <FileDiff className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              </button>
+              <button
+                onClick={() => setIsOverrideOpen(true)}
+                className="discord-btn-secondary p-1.5 sm:p-2"
+                aria-label="Override pack"
+                title="Export changed variables as an override pack"
+              >
+                <PackagePlus className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              </button>
+              {/* Opens in a new tab so the editor, its history and any open file or pack stay put */}
+              <Link
+                to="/compare"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="discord-btn-secondary p-1.5 sm:p-2"
+                aria-label="Compare two configs (opens in a new tab)"
+                title="Compare two configs (opens in a new tab)"
+              >
+                <GitCompare className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              </Link>
+              <button onClick={handleReset} className="discord-btn-secondary p-1.5 sm:p-2" aria-label="Reset all changes">
+                <RotateCcw className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              </button>
+              <button onClick={handleExport} className="discord-btn flex items-center gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-4 py-1.5 sm:py-2">
+                {openedFile ? <Save className="w-3.5 h-3.5 sm:w-4 sm:h-4" /> : <Download className="w-3.5 h-3.5 sm:w-4 sm:h-4" />}
+                <span className="hidden xs:inline">{openedFile ? 'Save' : 'Export'}</span>
+              </button>
             </div>
           </div>
           
-          <div className="flex items-center gap-1.5 sm:gap-3 flex-shrink-0">
-            {/* Search - hidden on very small screens */}
-            <div className="relative hidden sm:block">
+          {/* Mobile search bar */}
+          <div className="sm:hidden px-3 pb-3">
+            <div className="relative">
               <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
               <input
                 type="text"
-                placeholder="Search..."
+                placeholder="Search settings..."
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                className="discord-input pl-9 pr-8 w-40 lg:w-56"
+                className="discord-input pl-9 pr-8 w-full"
               />
               {searchQuery && (
                 <button 
@@ -242,97 +1078,81 @@ export const BBConfigEditor = () => {
                 </button>
               )}
             </div>
-
-            <button onClick={handleNewFile} className="discord-btn-outline text-xs sm:text-sm px-2 sm:px-4 py-1.5 sm:py-2">
-              New
-            </button>
-            <button onClick={handleReset} className="discord-btn-secondary p-1.5 sm:p-2">
-              <RotateCcw className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
-            </button>
-            <button onClick={handleExport} className="discord-btn flex items-center gap-1 sm:gap-2 text-xs sm:text-sm px-2 sm:px-4 py-1.5 sm:py-2">
-              <Download className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
-              <span className="hidden xs:inline">Export</span>
-            </button>
           </div>
-        </div>
-        
-        {/* Mobile search bar */}
-        <div className="sm:hidden px-3 pb-3">
-          <div className="relative">
-            <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground" />
-            <input
-              type="text"
-              placeholder="Search settings..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="discord-input pl-9 pr-8 w-full"
-            />
-            {searchQuery && (
-              <button 
-                onClick={() => setSearchQuery('')}
-                className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-              >
-                <X className="w-4 h-4" />
-              </button>
+        </header>
+
+        {/* Main Content */}
+        <div className="w-full max-w-5xl mx-auto px-3 sm:px-6 py-4 sm:py-6">
+          <div className="space-y-4 sm:space-y-6">
+            {sharedPatch && (
+              <SharedChanges operations={sharedPatch} data={data} onApply={handleApplySharedPatch} onDismiss={dismissSharedPatch} />
             )}
-          </div>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="max-w-5xl mx-auto px-3 sm:px-6 py-4 sm:py-6">
-        <div className="space-y-2 sm:space-y-3">
-          {Array.from(sections.entries()).map(([sectionName, keys]) => {
-            const filteredKeys = filterSettings(keys);
-            if (filteredKeys.length === 0) return null;
-            
-            const isExpanded = expandedSections.has(sectionName);
-            
-            return (
-              <div key={sectionName} className="discord-card animate-fade-in p-3 sm:p-4">
-                <button
-                  onClick={() => toggleSection(sectionName)}
-                  className="w-full flex items-center gap-2 text-left group"
+            {visibleCategories.map(category => {
+              const hasSubcategories = category.subcategories.some(sub => sub.name !== null);
+
+              return (
+                <section
+                  key={category.name}
+                  id={categoryElementId(category.name)}
+                  className="space-y-2 sm:space-y-3 scroll-mt-28"
                 >
-                  <div className="w-5 h-5 flex items-center justify-center text-muted-foreground group-hover:text-foreground transition-colors flex-shrink-0">
-                    {isExpanded ? (
-                      <ChevronDown className="w-4 h-4" />
-                    ) : (
-                      <ChevronRight className="w-4 h-4" />
-                    )}
-                  </div>
-                  <span className="flex-1 text-[10px] sm:text-xs font-semibold uppercase tracking-wide text-muted-foreground group-hover:text-foreground transition-colors truncate">
-                    {sectionName}
-                  </span>
-                  <span className="text-[10px] sm:text-xs text-muted-foreground flex-shrink-0">
-                    {filteredKeys.length}
-                  </span>
-                </button>
-                
-                {isExpanded && (
-                  <div className="mt-2 sm:mt-3 space-y-0.5 sm:space-y-1">
-                    {filteredKeys.map((key) => {
-                      const value = data[key];
-                      if (value === undefined) return null;
-                      
-                      const isChild = isChildSetting(key, allKeys);
-                      
-                      return (
-                        <div key={key} className="discord-setting-row py-2 sm:py-4 px-2 sm:px-3">
-                          <span className={`text-xs sm:text-sm truncate min-w-0 mr-2 ${isChild ? 'text-muted-foreground pl-2 sm:pl-4' : 'text-foreground'}`}>
-                            {formatKeyName(key)}
-                          </span>
-                          {renderValue(key, value)}
-                        </div>
-                      );
-                    })}
-                  </div>
-                )}
-              </div>
-            );
-          })}
+                  {hasSubcategories && (
+                    <h2 className="discord-section-header flex items-center justify-between mb-0">
+                      <span className="truncate">{category.name}</span>
+                      <span className="flex-shrink-0">{category.keyCount}</span>
+                    </h2>
+                  )}
+                  {category.subcategories.map(sub => renderSection(sub.section, sub.name ?? category.name, sub.keys))}
+                </section>
+              );
+            })}
+          </div>
         </div>
-      </main>
-    </div>
+      </SidebarInset>
+
+      <HistoryPanel
+        open={isHistoryOpen}
+        onOpenChange={setIsHistoryOpen}
+        entries={history.entries}
+        index={history.index}
+        onJump={history.jumpTo}
+      />
+
+      <ExportDialog
+        open={pendingExport !== null}
+        onOpenChange={(open) => !open && closeExport()}
+        fileName={exportsArchive ? `${packPath} in ${pack.archive.fileName}` : fileName}
+        originalText={sourceDocument?.text ?? ''}
+        outputText={pendingExport ?? ''}
+        saveInPlace={openedFile !== null}
+        onConfirm={handleConfirmExport}
+        onSaveAs={supportsFileSystemAccess() ? handleSaveAs : undefined}
+        conflict={diskConflict}
+        manifestBump={canBumpManifest ? { version: pack.manifest?.version, options: manifestBump, onChange: setManifestBump } : undefined}
+      />
+
+      {upgradeDialog}
+      {profilesPanel}
+
+      <PatchDialog
+        open={isPatchOpen}
+        onOpenChange={setIsPatchOpen}
+        fileName={fileName}
+        originalData={originalData ?? {}}
+        data={data}
+        onApply={handleApplyPatch}
+      />
+
+      <OverridePackDialog
+        open={isOverrideOpen}
+        onOpenChange={setIsOverrideOpen}
+        originalData={originalData ?? {}}
+        data={data}
+        defaults={overrideDefaults}
+        sourceName={packPath ?? fileName}
+      />
+
+      <MigrationReview report={migration} onAccept={handleAcceptMigration} onDismiss={() => setMigration(null)} />
+    </SidebarProvider>
   );
 };
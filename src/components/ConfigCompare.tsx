@@ -0,0 +1,231 @@
+import { useCallback, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, Download, FileJson, Filter, GitCompare } from 'lucide-react';
+import { toast } from 'sonner';
+import { parseJsonWithComments, serializeWithComments, verifySerializedOutput, formatKeyName } from '@/lib/jsonParser';
+import type { JsoncDocument } from '@/lib/jsoncDocument';
+import { compareConfigs, copyKeys, type CompareRow, type CompareStatus, type CopyDirection } from '@/lib/configCompare';
+import { isPlainObject, previewValue } from '@/lib/jsonValue';
+import { downloadText } from '@/lib/download';
+
+type Side = 'left' | 'right';
+
+interface LoadedConfig {
+  name: string;
+  data: Record<string, unknown>;
+  sections: Map<string, string[]>;
+  document: JsoncDocument;
+}
+
+const MAX_VALUE_PREVIEW = 200;
+
+const STATUS_STYLES: Record<CompareStatus, string> = {
+  same: '',
+  changed: 'bg-[hsl(var(--discord-yellow)/0.08)]',
+  leftOnly: 'bg-destructive/5',
+  rightOnly: 'bg-[hsl(var(--discord-green)/0.08)]',
+};
+
+const ValueCell = ({ value }: { value: unknown }) => (
+  <div className="min-w-0 font-mono text-[10px] sm:text-xs break-all">
+    {value === undefined ? (
+      <span className="italic text-muted-foreground">missing</span>
+    ) : (
+      <span className="text-foreground">{previewValue(value, MAX_VALUE_PREVIEW)}</span>
+    )}
+  </div>
+);
+
+const CopyButtons = ({ disabled, label, onCopy }: { disabled: boolean; label: string; onCopy: (direction: CopyDirection) => void }) => (
+  <div className="flex items-center gap-0.5 flex-shrink-0">
+    <button
+      onClick={() => onCopy('toLeft')}
+      disabled={disabled}
+      className="text-muted-foreground hover:text-foreground p-1 disabled:opacity-30 disabled:pointer-events-none"
+      aria-label={`Copy ${label} to the left file`}
+      title="Copy to left"
+    >
+      <ArrowLeft className="w-3.5 h-3.5" />
+    </button>
+    <button
+      onClick={() => onCopy('toRight')}
+      disabled={disabled}
+      className="text-muted-foreground hover:text-foreground p-1 disabled:opacity-30 disabled:pointer-events-none"
+      aria-label={`Copy ${label} to the right file`}
+      title="Copy to right"
+    >
+      <ArrowRight className="w-3.5 h-3.5" />
+    </button>
+  </div>
+);
+
+export const ConfigCompare = () => {
+  const [configs, setConfigs] = useState<Partial<Record<Side, LoadedConfig>>>({});
+  const [errors, setErrors] = useState<Partial<Record<Side, string>>>({});
+  const [showDifferencesOnly, setShowDifferencesOnly] = useState(true);
+
+  const handleFile = useCallback((side: Side, file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result as string;
+      try {
+        const { data, sections, document } = parseJsonWithComments(text);
+        if (!isPlainObject(data)) throw new Error('Expected a JSON object at the top level');
+        setConfigs(prev => ({ ...prev, [side]: { name: file.name, data, sections, document } }));
+        setErrors(prev => ({ ...prev, [side]: undefined }));
+      } catch (err) {
+        setErrors(prev => ({ ...prev, [side]: (err as Error).message }));
+      }
+    };
+    reader.readAsText(file);
+  }, []);
+
+  const { left, right } = configs;
+
+  const comparison = useMemo(() => (left && right ? compareConfigs(left, right) : []), [left, right]);
+  const totalDifferences = comparison.reduce((sum, section) => sum + section.differences, 0);
+
+  const copy = useCallback((direction: CopyDirection, keys: string[]) => {
+    setConfigs(prev => {
+      const source = direction === 'toLeft' ? prev.right : prev.left;
+      const targetSide: Side = direction === 'toLeft' ? 'left' : 'right';
+      const target = prev[targetSide];
+      if (!source || !target) return prev;
+      return { ...prev, [targetSide]: { ...target, data: copyKeys(source.data, target.data, keys) } };
+    });
+  }, []);
+
+  const handleExport = useCallback((side: Side) => {
+    const config = configs[side];
+    if (!config) return;
+
+    const output = serializeWithComments(config.data, config.sections, config.document);
+    const problem = verifySerializedOutput(output, config.data);
+    if (problem) {
+      toast.error('Export cancelled', { description: problem });
+      return;
+    }
+    downloadText(output, config.name);
+  }, [configs]);
+
+  const visibleRows = (rows: CompareRow[]) => (showDifferencesOnly ? rows.filter(row => row.status !== 'same') : rows);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {/* Header */}
+      <header className="sticky top-0 z-10 bg-card border-b border-border">
+        <div className="max-w-6xl mx-auto px-3 sm:px-6 py-3 flex items-center justify-between gap-2 sm:gap-4">
+          <div className="flex items-center gap-2 sm:gap-3 min-w-0">
+            <div className="w-7 h-7 sm:w-8 sm:h-8 bg-primary rounded-full flex items-center justify-center flex-shrink-0">
+              <GitCompare className="w-3.5 h-3.5 sm:w-4 sm:h-4 text-primary-foreground" />
+            </div>
+            <span className="font-semibold text-foreground text-xs sm:text-sm truncate">Compare configs</span>
+          </div>
+
+          <div className="flex items-center gap-1.5 sm:gap-3 flex-shrink-0">
+            <button
+              onClick={() => setShowDifferencesOnly(prev => !prev)}
+              className={`${showDifferencesOnly ? 'discord-btn' : 'discord-btn-secondary'} flex items-center gap-1 p-1.5 sm:px-3 sm:py-2 text-xs sm:text-sm`}
+              aria-pressed={showDifferencesOnly}
+              title="Show differences only"
+            >
+              <Filter className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+              <span className="hidden sm:inline">Differences</span>
+              {left && right && <span className="text-[10px] sm:text-xs opacity-80">{totalDifferences}</span>}
+            </button>
+            <Link to="/" className="discord-btn-outline text-xs sm:text-sm px-2 sm:px-4 py-1.5 sm:py-2">
+              Editor
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <div className="w-full max-w-6xl mx-auto px-3 sm:px-6 py-4 sm:py-6 space-y-4 sm:space-y-6">
+        {/* File pickers */}
+        <div className="grid grid-cols-2 gap-2 sm:gap-4">
+          {(['left', 'right'] as const).map(side => {
+            const config = configs[side];
+            const inputId = `compare-${side}-input`;
+
+            return (
+              <div key={side} className="discord-card p-3 space-y-2 min-w-0">
+                <input
+                  id={inputId}
+                  type="file"
+                  accept=".json"
+                  onChange={(e) => e.target.files?.[0] && handleFile(side, e.target.files[0])}
+                  className="hidden"
+                />
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => document.getElementById(inputId)?.click()}
+                    className="flex-1 discord-btn-secondary flex items-center gap-2 text-xs sm:text-sm px-2 py-1.5 min-w-0"
+                  >
+                    <FileJson className="w-3.5 h-3.5 sm:w-4 sm:h-4 flex-shrink-0" />
+                    <span className="truncate">{config ? config.name : `Choose ${side} file`}</span>
+                  </button>
+                  {config && (
+                    <button
+                      onClick={() => handleExport(side)}
+                      className="discord-btn p-1.5 sm:p-2 flex-shrink-0"
+                      aria-label={`Download ${config.name}`}
+                      title="Download with copied values"
+                    >
+                      <Download className="w-3.5 h-3.5 sm:w-4 sm:h-4" />
+                    </button>
+                  )}
+                </div>
+                {errors[side] && <p className="text-[10px] sm:text-xs text-destructive break-words">{errors[side]}</p>}
+              </div>
+            );
+          })}
+        </div>
+
+        {left && right && totalDifferences === 0 && (
+          <p className="text-center text-sm text-muted-foreground">The two files have the same settings.</p>
+        )}
+
+        {comparison.map(section => {
+          const rows = visibleRows(section.rows);
+          if (rows.length === 0) return null;
+
+          return (
+            <div key={section.name} className="discord-card p-3 sm:p-4 space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="flex-1 text-[10px] sm:text-xs font-semibold uppercase tracking-wide text-muted-foreground truncate">
+                  {section.name}
+                </span>
+                {section.differences > 0 && (
+                  <span className="text-[10px] sm:text-xs font-medium text-[hsl(var(--discord-yellow))] flex-shrink-0">
+                    {section.differences} different
+                  </span>
+                )}
+                <CopyButtons
+                  disabled={section.differences === 0}
+                  label={`section ${section.name}`}
+                  onCopy={direction => copy(direction, section.rows.map(row => row.key))}
+                />
+              </div>
+
+              {rows.map(row => (
+                <div
+                  key={row.key}
+                  className={`grid grid-cols-[minmax(0,1fr)_minmax(0,1.5fr)_auto_minmax(0,1.5fr)] items-start gap-2 rounded px-2 py-1.5 ${STATUS_STYLES[row.status]}`}
+                >
+                  <div className="text-xs sm:text-sm text-foreground break-words">{formatKeyName(row.key)}</div>
+                  <ValueCell value={row.left} />
+                  <CopyButtons
+                    disabled={row.status === 'same'}
+                    label={formatKeyName(row.key)}
+                    onCopy={direction => copy(direction, [row.key])}
+                  />
+                  <ValueCell value={row.right} />
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
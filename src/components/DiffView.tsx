@@ -0,0 +1,87 @@
+import { Fragment, useMemo } from 'react';
+import { groupHunks, toSplitRows, type DiffLine } from '@/lib/textDiff';
+
+export type DiffMode = 'unified' | 'split';
+
+interface DiffViewProps {
+  lines: DiffLine[];
+  mode: DiffMode;
+  context?: number;
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  equal: 'text-muted-foreground',
+  added: 'bg-[hsl(var(--discord-green)/0.15)] text-foreground',
+  removed: 'bg-destructive/15 text-foreground',
+};
+
+const LINE_MARKERS: Record<DiffLine['type'], string> = { equal: ' ', added: '+', removed: '-' };
+
+const CollapsedRow = ({ count, columns }: { count: number; columns: number }) => (
+  <tr>
+    <td colSpan={columns} className="px-3 py-1 text-center text-[10px] sm:text-xs text-muted-foreground bg-muted/40">
+      ⋯ {count} unchanged line{count === 1 ? '' : 's'}
+    </td>
+  </tr>
+);
+
+const NumberCell = ({ value }: { value?: number }) => (
+  <td className="select-none text-right pr-2 pl-2 text-muted-foreground/60 w-px whitespace-nowrap align-top">{value ?? ''}</td>
+);
+
+const CodeCell = ({ line }: { line?: DiffLine }) => (
+  <td className={`whitespace-pre pr-3 align-top ${line ? LINE_STYLES[line.type] : 'bg-muted/20'}`}>
+    {line && (
+      <>
+        <span className="select-none opacity-60">{LINE_MARKERS[line.type]} </span>
+        {line.text}
+        {line.crlf && line.type !== 'equal' && <span className="select-none opacity-60" title="Ends in CRLF">␍</span>}
+      </>
+    )}
+  </td>
+);
+
+export const DiffView = ({ lines, mode, context = 3 }: DiffViewProps) => {
+  const hunks = useMemo(() => groupHunks(lines, context), [lines, context]);
+
+  return (
+    <div className="overflow-auto rounded-md border border-border bg-background">
+      <table className="w-full border-collapse font-mono text-[11px] sm:text-xs">
+        <tbody>
+          {hunks.map((hunk, hunkIndex) => {
+            if (hunk.type === 'collapsed') {
+              return <CollapsedRow key={hunkIndex} count={hunk.count} columns={mode === 'split' ? 4 : 3} />;
+            }
+
+            if (mode === 'split') {
+              return (
+                <Fragment key={hunkIndex}>
+                  {toSplitRows(hunk.lines).map((row, rowIndex) => (
+                    <tr key={rowIndex}>
+                      <NumberCell value={row.left?.oldNumber} />
+                      <CodeCell line={row.left} />
+                      <NumberCell value={row.right?.newNumber} />
+                      <CodeCell line={row.right} />
+                    </tr>
+                  ))}
+                </Fragment>
+              );
+            }
+
+            return (
+              <Fragment key={hunkIndex}>
+                {hunk.lines.map((line, lineIndex) => (
+                  <tr key={lineIndex}>
+                    <NumberCell value={line.oldNumber} />
+                    <NumberCell value={line.newNumber} />
+                    <CodeCell line={line} />
+                  </tr>
+                ))}
+              </Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
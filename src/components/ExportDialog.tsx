@@ -0,0 +1,148 @@
+import { useMemo, useState } from 'react';
+import { AlertTriangle, Download, Save } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { countChanges, diffLines } from '@/lib/textDiff';
+import { bumpVersion, type ManifestBumpOptions } from '@/lib/packManifest';
+import { DiffView, type DiffMode } from './DiffView';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  originalText: string;
+  outputText: string;
+  // Saves in place when the file was opened from disk, otherwise downloads
+  saveInPlace?: boolean;
+  onConfirm: () => void;
+  onSaveAs?: () => void;
+  // The file on disk changed since it was opened; confirming overwrites it
+  conflict?: boolean;
+  // Offered when the file belongs to a pack whose manifest.json can be written with it
+  manifestBump?: {
+    version?: string;
+    options: ManifestBumpOptions;
+    onChange: (options: ManifestBumpOptions) => void;
+  };
+}
+
+const BumpToggle = ({ checked, onChange, label, hint }: { checked: boolean; onChange: (checked: boolean) => void; label: string; hint: string }) => (
+  <div className="flex items-center gap-3">
+    <div className="flex-1 min-w-0">
+      <p className="text-foreground">{label}</p>
+      <p className="text-[10px] sm:text-xs text-muted-foreground">{hint}</p>
+    </div>
+    <button
+      onClick={() => onChange(!checked)}
+      className={`discord-toggle flex-shrink-0 ${checked ? 'active' : ''}`}
+      role="switch"
+      aria-checked={checked}
+      aria-label={label}
+    />
+  </div>
+);
+
+export const ExportDialog = ({
+  open,
+  onOpenChange,
+  fileName,
+  originalText,
+  outputText,
+  saveInPlace = false,
+  onConfirm,
+  onSaveAs,
+  conflict = false,
+  manifestBump,
+}: ExportDialogProps) => {
+  const [mode, setMode] = useState<DiffMode>('unified');
+  const lines = useMemo(() => (open ? diffLines(originalText, outputText) : []), [open, originalText, outputText]);
+  const { added, removed } = countChanges(lines);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl w-[calc(100vw-2rem)] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Review export</DialogTitle>
+          <DialogDescription>
+            {saveInPlace
+              ? `Changes between ${fileName} as it was opened and what will be saved to it.`
+              : `Changes between the uploaded ${fileName} and the file that will be downloaded.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-xs sm:text-sm">
+            {added === 0 && removed === 0 ? (
+              <span className="text-muted-foreground">No changes</span>
+            ) : (
+              <>
+                <span className="text-[hsl(var(--discord-green))] font-medium">+{added}</span>{' '}
+                <span className="text-destructive font-medium">−{removed}</span>{' '}
+                <span className="text-muted-foreground">lines</span>
+              </>
+            )}
+          </div>
+          <div className="flex rounded-[3px] overflow-hidden border border-border text-xs">
+            {(['unified', 'split'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1 capitalize ${mode === option ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:bg-muted'}`}
+              >
+                {option === 'split' ? 'Side by side' : 'Unified'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto">
+          <DiffView lines={lines} mode={mode} />
+        </div>
+
+        {conflict && (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-xs sm:text-sm">
+            <AlertTriangle className="w-4 h-4 text-destructive flex-shrink-0 mt-0.5" />
+            <span className="text-foreground">
+              {fileName} was changed on disk after you opened it, maybe by another program. Overwriting replaces those changes;
+              use Save As to keep both.
+            </span>
+          </div>
+        )}
+
+        {manifestBump && (
+          <div className="rounded-md border border-border p-3 space-y-3 text-xs sm:text-sm">
+            <BumpToggle
+              checked={manifestBump.options.version}
+              onChange={version => manifestBump.onChange({ ...manifestBump.options, version })}
+              label={manifestBump.version ? `Bump version to ${bumpVersion(manifestBump.version)}` : 'Bump version'}
+              hint="Minecraft keeps using its cached copy of a pack until the version changes."
+            />
+            <BumpToggle
+              checked={manifestBump.options.uuids}
+              onChange={uuids => manifestBump.onChange({ ...manifestBump.options, uuids })}
+              label="New header and module UUIDs"
+              hint="Installs as a separate pack; worlds that use the old one won't pick it up."
+            />
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <button onClick={() => onOpenChange(false)} className="discord-btn-outline">
+            Cancel
+          </button>
+          {onSaveAs && (
+            <button onClick={onSaveAs} className="discord-btn-secondary">
+              Save As…
+            </button>
+          )}
+          <button
+            onClick={onConfirm}
+            className={`discord-btn flex items-center justify-center gap-2 ${conflict ? 'bg-destructive text-destructive-foreground hover:bg-destructive/80' : ''}`}
+          >
+            {saveInPlace ? <Save className="w-4 h-4" /> : <Download className="w-4 h-4" />}
+            {conflict ? 'Overwrite' : saveInPlace ? 'Save' : 'Download'}
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
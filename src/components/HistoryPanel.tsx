@@ -0,0 +1,55 @@
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import type { HistoryEntry } from '@/hooks/use-edit-history';
+import { previewValue } from '@/lib/jsonValue';
+
+interface HistoryPanelProps<T> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  entries: HistoryEntry<T>[];
+  index: number;
+  onJump: (index: number) => void;
+}
+
+export const HistoryPanel = <T,>({ open, onOpenChange, entries, index, onJump }: HistoryPanelProps<T>) => (
+  <Sheet open={open} onOpenChange={onOpenChange}>
+    <SheetContent side="right" className="w-full sm:max-w-md flex flex-col">
+      <SheetHeader>
+        <SheetTitle>Edit history</SheetTitle>
+        <SheetDescription>Select a step to return to it. Later steps stay available until you make a new edit.</SheetDescription>
+      </SheetHeader>
+
+      <ol className="flex-1 overflow-y-auto -mx-2 space-y-0.5">
+        {[...entries.keys()].reverse().map(step => {
+          const entry = entries[step];
+          const isCurrent = step === index;
+          const isFuture = step > index;
+
+          return (
+            <li key={step}>
+              <button
+                onClick={() => onJump(step)}
+                className={`w-full text-left rounded-md px-2 py-2 transition-colors ${
+                  isCurrent ? 'bg-primary/15 ring-1 ring-primary/40' : 'hover:bg-muted'
+                } ${isFuture ? 'opacity-50' : ''}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs sm:text-sm text-foreground truncate">{entry.label}</span>
+                  <span className="text-[10px] text-muted-foreground flex-shrink-0">
+                    {new Date(entry.timestamp).toLocaleTimeString()}
+                  </span>
+                </div>
+                {entry.key !== undefined && (
+                  <div className="mt-0.5 text-[10px] sm:text-xs font-mono text-muted-foreground truncate">
+                    {entry.key}: <span className="line-through opacity-70">{previewValue(entry.oldValue)}</span>
+                    {' → '}
+                    <span className="text-foreground">{previewValue(entry.newValue)}</span>
+                  </div>
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </SheetContent>
+  </Sheet>
+);
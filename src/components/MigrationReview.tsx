@@ -0,0 +1,72 @@
+import { AlertTriangle, ArrowRightLeft } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import type { MigrationReport } from '@/lib/migrations';
+import { previewValue } from '@/lib/jsonValue';
+
+interface MigrationReviewProps {
+  report: MigrationReport | null;
+  onAccept: () => void;
+  onDismiss: () => void;
+}
+
+export const MigrationReview = ({ report, onAccept, onDismiss }: MigrationReviewProps) => {
+  const canMigrate = (report?.changes.length ?? 0) > 0;
+
+  return (
+    <Dialog open={report !== null} onOpenChange={(open) => !open && onDismiss()}>
+      <DialogContent className="max-w-2xl w-[calc(100vw-2rem)] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            {canMigrate ? `Migrate from ${report?.fromVersion} to ${report?.toVersion}` : `Can't migrate from ${report?.fromVersion}`}
+          </DialogTitle>
+          <DialogDescription>
+            This file was written for an older Better Bedrock version. Some keys were renamed or changed since then.
+            {canMigrate && ' Review the changes below; you can undo them afterwards.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {report?.unsupported && (
+          <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-xs sm:text-sm">
+            <AlertTriangle className="w-4 h-4 text-destructive flex-shrink-0 mt-0.5" />
+            <span className="text-foreground">
+              No migration covers {report.unsupported.from} to {report.unsupported.to}, so keys changed in those releases
+              aren't updated{canMigrate && ` and the migration stops at ${report.toVersion}`}. Compare the file with the
+              current default to bring it up to date by hand.
+            </span>
+          </div>
+        )}
+
+        <ul className="flex-1 min-h-0 overflow-y-auto space-y-1 text-xs sm:text-sm">
+          {report?.changes.map((change, index) => (
+            <li key={index} className={`discord-card p-2 sm:p-3 space-y-0.5 ${change.conflict ? 'border border-destructive/50' : ''}`}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono text-foreground truncate">{change.key}</span>
+                <span className="text-[10px] sm:text-xs text-muted-foreground flex-shrink-0">{change.version}</span>
+              </div>
+              <div className={change.conflict ? 'text-destructive' : 'text-muted-foreground'}>{change.description}</div>
+              {change.oldValue !== change.newValue && (
+                <div className="font-mono text-[10px] sm:text-xs text-muted-foreground truncate">
+                  <span className="line-through opacity-70">{previewValue(change.oldValue, 60)}</span>
+                  {' → '}
+                  <span className="text-foreground">{previewValue(change.newValue, 60)}</span>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <DialogFooter className="gap-2">
+          <button onClick={onDismiss} className="discord-btn-outline">
+            Keep as is
+          </button>
+          {canMigrate && (
+            <button onClick={onAccept} className="discord-btn flex items-center justify-center gap-2">
+              <ArrowRightLeft className="w-4 h-4" />
+              Apply migration
+            </button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
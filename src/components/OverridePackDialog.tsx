@@ -0,0 +1,148 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Download } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { previewValue } from '@/lib/jsonValue';
+import { downloadBlob } from '@/lib/download';
+import {
+  buildOverridePack,
+  canOverrideFile,
+  diffOverrides,
+  overridePackFileName,
+  parseVersionTriple,
+  type OverridePackOptions,
+} from '@/lib/overridePack';
+
+type ConfigData = Record<string, unknown>;
+
+interface OverridePackDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  originalData: ConfigData;
+  data: ConfigData;
+  // Prefilled from the open pack's manifest, when there is one
+  defaults: OverridePackOptions;
+  // Path or name of the open file
+  sourceName: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export const OverridePackDialog = ({ open, onOpenChange, originalData, data, defaults, sourceName }: OverridePackDialogProps) => {
+  const [options, setOptions] = useState<OverridePackOptions>(defaults);
+
+  useEffect(() => {
+    if (open) setOptions(defaults);
+  }, [open, defaults]);
+
+  const { overrides, removed } = useMemo(
+    () => (open ? diffOverrides(originalData, data) : { overrides: {}, removed: [] }),
+    [open, originalData, data],
+  );
+  const keys = Object.keys(overrides);
+  const validUuid = UUID_PATTERN.test(options.baseUuid.trim());
+  const validVersion = parseVersionTriple(options.baseVersion) !== null;
+  const supported = canOverrideFile(sourceName);
+
+  const update = (changes: Partial<OverridePackOptions>) => setOptions(prev => ({ ...prev, ...changes }));
+
+  const handleDownload = () => {
+    const bytes = buildOverridePack({ ...options, baseUuid: options.baseUuid.trim() }, overrides);
+    downloadBlob(new Blob([bytes], { type: 'application/zip' }), overridePackFileName(options.name));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg w-[calc(100vw-2rem)]">
+        <DialogHeader>
+          <DialogTitle>Override pack</DialogTitle>
+          <DialogDescription>
+            A small resource pack that goes above the base pack and overrides only the variables you changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-xs sm:text-sm">
+          <label className="block space-y-1">
+            <span className="text-muted-foreground">Pack name</span>
+            <input value={options.name} onChange={(e) => update({ name: e.target.value })} className="discord-input w-full" />
+          </label>
+          <div className="flex gap-2">
+            <label className="block space-y-1 flex-1 min-w-0">
+              <span className="text-muted-foreground">Base pack UUID</span>
+              <input
+                value={options.baseUuid}
+                onChange={(e) => update({ baseUuid: e.target.value })}
+                placeholder="header uuid from its manifest.json"
+                className="discord-input w-full font-mono"
+              />
+            </label>
+            <label className="block space-y-1 w-24 flex-shrink-0">
+              <span className="text-muted-foreground">Version</span>
+              <input
+                value={options.baseVersion}
+                onChange={(e) => update({ baseVersion: e.target.value })}
+                placeholder="1.0.0"
+                className="discord-input w-full"
+              />
+            </label>
+          </div>
+          {options.baseUuid.trim() && !validUuid && <p className="text-destructive">That doesn't look like a UUID.</p>}
+          {!validVersion && (
+            <p className="text-destructive">
+              Enter the base pack's version as x.y.z, as in its manifest.json. The override pack depends on exactly that version.
+            </p>
+          )}
+
+          {!supported && (
+            <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3">
+              <AlertTriangle className="w-4 h-4 text-destructive flex-shrink-0 mt-0.5" />
+              <span className="text-foreground">
+                {sourceName} isn't a global variables file. Other JSON UI files can't be overridden with just the changed keys,
+                so open _global_variables.json to build an override pack.
+              </span>
+            </div>
+          )}
+
+          {keys.length === 0 ? (
+            <p className="text-muted-foreground">No variables have changed yet.</p>
+          ) : (
+            <div className="space-y-1">
+              <p className="text-muted-foreground">
+                {keys.length} variable{keys.length === 1 ? '' : 's'} in {options.path}
+              </p>
+              <ul className="max-h-48 overflow-y-auto rounded-md border border-border p-2 space-y-0.5 font-mono text-[10px] sm:text-xs">
+                {keys.map(key => (
+                  <li key={key} className="flex gap-2">
+                    <span className="flex-1 min-w-0 truncate text-foreground">{key}</span>
+                    <span className="text-muted-foreground truncate max-w-[40%]">{previewValue(overrides[key])}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {removed.length > 0 && (
+            <div className="flex items-start gap-2 rounded-md border border-[hsl(var(--discord-yellow))]/50 p-3">
+              <AlertTriangle className="w-4 h-4 text-[hsl(var(--discord-yellow))] flex-shrink-0 mt-0.5" />
+              <span className="text-foreground">
+                {removed.length} deleted variable{removed.length === 1 ? '' : 's'} can't be expressed as an override and will
+                keep the base pack's value.
+              </span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <button
+            onClick={handleDownload}
+            disabled={!supported || keys.length === 0 || !validUuid || !validVersion || !options.name.trim()}
+            className="discord-btn flex items-center justify-center gap-2 disabled:opacity-40"
+          >
+            <Download className="w-4 h-4" />
+            Download .mcpack
+          </button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,47 @@
+import { FileJson, FolderOpen, X } from 'lucide-react';
+import type { PackFile, PackFolder } from '@/lib/packFolder';
+
+interface PackBrowserProps {
+  pack: PackFolder;
+  onOpen: (file: PackFile) => void;
+  onClose: () => void;
+}
+
+export const PackBrowser = ({ pack, onOpen, onClose }: PackBrowserProps) => (
+  <div className="mt-4 discord-card p-3 sm:p-4 space-y-3">
+    <div className="flex items-start gap-2">
+      <FolderOpen className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+      <div className="flex-1 min-w-0">
+        <p className="text-xs sm:text-sm font-semibold text-foreground truncate">
+          {pack.manifest?.name ?? pack.name}
+          {pack.manifest?.version && <span className="ml-2 font-normal text-muted-foreground">v{pack.manifest.version}</span>}
+        </p>
+        {pack.manifest?.description && (
+          <p className="text-[10px] sm:text-xs text-muted-foreground truncate">{pack.manifest.description}</p>
+        )}
+        {!pack.manifest && <p className="text-[10px] sm:text-xs text-muted-foreground">No manifest.json found</p>}
+      </div>
+      <button onClick={onClose} className="text-muted-foreground hover:text-foreground p-1" aria-label="Close pack">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+
+    {pack.configs.length === 0 ? (
+      <p className="text-xs sm:text-sm text-muted-foreground">No JSON UI files that define $ variables were found in this folder.</p>
+    ) : (
+      <ul className="max-h-72 overflow-y-auto -mx-2 space-y-0.5">
+        {pack.configs.map(file => (
+          <li key={file.path}>
+            <button onClick={() => onOpen(file)} className="w-full flex items-center gap-2 rounded-md px-2 py-1.5 text-left hover:bg-muted">
+              <FileJson className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />
+              <span className="flex-1 min-w-0 text-xs sm:text-sm font-mono text-foreground truncate">{file.path}</span>
+              <span className="text-[10px] sm:text-xs text-muted-foreground flex-shrink-0">
+                {file.variableCount} variable{file.variableCount === 1 ? '' : 's'}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -0,0 +1,58 @@
+import { ChevronDown, Package } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import type { PackFolder } from '@/lib/packFolder';
+
+interface PackManifestSummaryProps {
+  pack: PackFolder;
+}
+
+export const PackManifestSummary = ({ pack }: PackManifestSummaryProps) => {
+  const { manifest } = pack;
+  const name = manifest?.name ?? pack.name;
+
+  return (
+    <Popover>
+      <PopoverTrigger className="flex items-center gap-1 min-w-0 text-left font-semibold text-foreground text-xs sm:text-sm hover:text-primary">
+        <span className="truncate">{name}</span>
+        {manifest?.version && <span className="font-normal text-muted-foreground flex-shrink-0">v{manifest.version}</span>}
+        <ChevronDown className="w-3 h-3 text-muted-foreground flex-shrink-0" />
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-3">
+        <div className="flex items-start gap-2">
+          <Package className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-foreground break-words">{name}</p>
+            {manifest?.description && <p className="text-xs text-muted-foreground break-words">{manifest.description}</p>}
+          </div>
+        </div>
+
+        {manifest ? (
+          <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+            <dt className="text-muted-foreground">Version</dt>
+            <dd className="text-foreground">{manifest.version ?? '—'}</dd>
+            <dt className="text-muted-foreground">UUID</dt>
+            <dd className="text-foreground font-mono break-all">{manifest.uuid ?? '—'}</dd>
+          </dl>
+        ) : (
+          <p className="text-xs text-muted-foreground">No manifest.json found</p>
+        )}
+
+        {manifest && manifest.dependencies.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-[10px] font-semibold uppercase tracking-wide text-muted-foreground">Dependencies</p>
+            <ul className="space-y-0.5 text-xs">
+              {manifest.dependencies.map((dependency, i) => (
+                <li key={i} className="flex items-baseline gap-2">
+                  <span className="flex-1 min-w-0 font-mono text-foreground break-all">
+                    {dependency.moduleName ?? dependency.uuid ?? 'Unknown'}
+                  </span>
+                  {dependency.version && <span className="text-muted-foreground flex-shrink-0">{dependency.version}</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,75 @@
+import { AlertCircle } from 'lucide-react';
+import type { JsoncDiagnostic } from '@/lib/jsonc';
+
+interface ParseErrorViewProps {
+  message: string;
+  diagnostic?: JsoncDiagnostic;
+  source?: string;
+}
+
+const CONTEXT_LINES = 2;
+
+// Tabs are expanded so the caret lines up with the rendered text
+const expandTabs = (text: string) => text.replace(/\t/g, '  ');
+
+export const ParseErrorView = ({ message, diagnostic, source }: ParseErrorViewProps) => {
+  if (!diagnostic || source === undefined) {
+    return (
+      <div className="mt-4 p-3 sm:p-4 bg-destructive/10 border border-destructive/30 rounded-lg">
+        <p className="text-destructive text-xs sm:text-sm">{message}</p>
+      </div>
+    );
+  }
+
+  const lines = source.split('\n').map(line => line.replace(/\r$/, ''));
+  const first = Math.max(1, diagnostic.line - CONTEXT_LINES);
+  const last = Math.min(lines.length, diagnostic.line + CONTEXT_LINES);
+  const gutterWidth = String(last).length;
+
+  const errorLine = lines[diagnostic.line - 1] ?? '';
+  const caretOffset = expandTabs(errorLine.slice(0, diagnostic.column - 1)).length;
+  const tokenText = diagnostic.token ? expandTabs(diagnostic.token.split('\n')[0]) : '';
+  const caretWidth = Math.max(1, Math.min(tokenText.length, errorLine.length - caretOffset));
+
+  return (
+    <div className="mt-4 bg-destructive/10 border border-destructive/30 rounded-lg overflow-hidden">
+      <div className="p-3 sm:p-4 flex gap-2">
+        <AlertCircle className="w-4 h-4 text-destructive flex-shrink-0 mt-0.5" />
+        <div className="min-w-0 space-y-1">
+          <p className="text-destructive text-xs sm:text-sm font-medium">
+            {diagnostic.message}
+          </p>
+          <p className="text-muted-foreground text-[10px] sm:text-xs">
+            Line {diagnostic.line}, column {diagnostic.column}
+            {diagnostic.token && <> · found <code className="text-foreground">{tokenText}</code></>}
+            {diagnostic.expected && <> · expected <code className="text-foreground">{diagnostic.expected}</code></>}
+          </p>
+        </div>
+      </div>
+
+      <pre className="bg-card border-t border-destructive/30 text-[11px] sm:text-xs font-mono py-2 overflow-x-auto">
+        {lines.slice(first - 1, last).map((line, index) => {
+          const lineNumber = first + index;
+          const isErrorLine = lineNumber === diagnostic.line;
+          const gutter = String(lineNumber).padStart(gutterWidth, ' ');
+
+          return (
+            <div key={lineNumber}>
+              <div className={`px-3 ${isErrorLine ? 'bg-destructive/15 text-foreground' : 'text-muted-foreground'}`}>
+                <span className="select-none opacity-60">{gutter} | </span>
+                {expandTabs(line)}
+              </div>
+              {isErrorLine && (
+                <div className="px-3 text-destructive">
+                  <span className="select-none">{' '.repeat(gutterWidth)} | </span>
+                  {' '.repeat(caretOffset)}
+                  {'^'.repeat(caretWidth)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </pre>
+    </div>
+  );
+};
@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Check, Download, FileJson } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { createPatch, parsePatch, previewPatch, type JsonPatchOperation } from '@/lib/jsonPatch';
+import { isPlainObject } from '@/lib/jsonValue';
+import { downloadText } from '@/lib/download';
+import { PatchOperationList, PatchPreviewSummary } from './PatchOperationList';
+
+type ConfigData = Record<string, unknown>;
+
+interface PatchDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fileName: string;
+  originalData: ConfigData;
+  data: ConfigData;
+  onApply: (data: ConfigData, label: string) => void;
+}
+
+interface LoadedPatch {
+  name: string;
+  operations: JsonPatchOperation[];
+}
+
+// "global_variables.json" -> "global_variables.patch.json"
+const patchFileName = (fileName: string) => fileName.replace(/\.json$/i, '') + '.patch.json';
+
+export const PatchDialog = ({ open, onOpenChange, fileName, originalData, data, onApply }: PatchDialogProps) => {
+  const [patch, setPatch] = useState<LoadedPatch | null>(null);
+  const [patchError, setPatchError] = useState<string | null>(null);
+  const [partial, setPartial] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setPatch(null);
+    setPatchError(null);
+  }, [open]);
+
+  const changes = useMemo(() => (open ? createPatch(originalData, data) : []), [open, originalData, data]);
+  const preview = useMemo(() => (patch ? previewPatch(data, patch.operations, { partial }) : null), [patch, data, partial]);
+
+  const handlePatchFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        setPatch({ name: file.name, operations: parsePatch(e.target?.result as string) });
+        setPatchError(null);
+        setPartial(false);
+      } catch (err) {
+        setPatch(null);
+        setPatchError((err as Error).message);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleExport = () => {
+    downloadText(JSON.stringify(changes, null, 2) + '\n', patchFileName(fileName));
+  };
+
+  const handleApply = () => {
+    if (!patch || !preview || !isPlainObject(preview.data)) return;
+    onApply(preview.data, `Apply ${patch.name}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl w-[calc(100vw-2rem)]">
+        <DialogHeader>
+          <DialogTitle>JSON Patch</DialogTitle>
+          <DialogDescription>
+            Share only what you changed as an RFC 6902 patch, or apply someone else's patch to this file.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="export">
+          <TabsList className="grid grid-cols-2">
+            <TabsTrigger value="export">Export changes</TabsTrigger>
+            <TabsTrigger value="apply">Apply patch</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-3">
+            {changes.length === 0 ? (
+              <p className="text-xs sm:text-sm text-muted-foreground">No changes since the file was opened.</p>
+            ) : (
+              <>
+                <p className="text-xs sm:text-sm text-muted-foreground">
+                  {changes.length} operation{changes.length === 1 ? '' : 's'} since the file was opened.
+                </p>
+                <PatchOperationList items={changes.map(operation => ({ operation }))} showStatus={false} />
+              </>
+            )}
+            <DialogFooter>
+              <button
+                onClick={handleExport}
+                disabled={changes.length === 0}
+                className="discord-btn flex items-center justify-center gap-2 disabled:opacity-40"
+              >
+                <Download className="w-4 h-4" />
+                Download patch
+              </button>
+            </DialogFooter>
+          </TabsContent>
+
+          <TabsContent value="apply" className="space-y-3">
+            <input
+              id="patch-file-input"
+              type="file"
+              accept=".json"
+              onChange={(e) => {
+                if (e.target.files?.[0]) handlePatchFile(e.target.files[0]);
+                e.target.value = '';
+              }}
+              className="hidden"
+            />
+            <button
+              onClick={() => document.getElementById('patch-file-input')?.click()}
+              className="w-full discord-btn-secondary flex items-center gap-2 text-xs sm:text-sm px-3 py-1.5 min-w-0"
+            >
+              <FileJson className="w-3.5 h-3.5 sm:w-4 sm:h-4 flex-shrink-0" />
+              <span className="truncate">{patch ? patch.name : 'Choose patch file'}</span>
+            </button>
+            {patchError && <p className="text-xs sm:text-sm text-destructive break-words">{patchError}</p>}
+
+            {preview && <PatchPreviewSummary preview={preview} partial={partial} onPartialChange={setPartial} />}
+
+            <DialogFooter>
+              <button
+                onClick={handleApply}
+                disabled={!preview || preview.applied === 0}
+                className="discord-btn flex items-center justify-center gap-2 disabled:opacity-40"
+              >
+                <Check className="w-4 h-4" />
+                Apply
+              </button>
+            </DialogFooter>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,85 @@
+import { Check, Minus, X } from 'lucide-react';
+import type { JsonPatchOperation, PatchPreview } from '@/lib/jsonPatch';
+import { previewValue } from '@/lib/jsonValue';
+
+interface PatchOperationListProps {
+  // Operations with the reason they failed to apply, if they did
+  items: { operation: JsonPatchOperation; error?: string; skipped?: boolean }[];
+  // Off for operations that haven't been tried against a document
+  showStatus?: boolean;
+}
+
+const describeOperation = (operation: JsonPatchOperation) => {
+  switch (operation.op) {
+    case 'move':
+    case 'copy':
+      return `${operation.from} → ${operation.path}`;
+    case 'remove':
+      return operation.path;
+    default:
+      return `${operation.path} = ${previewValue(operation.value, 60)}`;
+  }
+};
+
+const StatusIcon = ({ error, skipped }: { error?: string; skipped?: boolean }) => {
+  if (skipped) return <Minus className="w-3.5 h-3.5 mt-0.5 text-muted-foreground flex-shrink-0" />;
+  if (error !== undefined) return <X className="w-3.5 h-3.5 mt-0.5 text-destructive flex-shrink-0" />;
+  return <Check className="w-3.5 h-3.5 mt-0.5 text-[hsl(var(--discord-green))] flex-shrink-0" />;
+};
+
+export const PatchOperationList = ({ items, showStatus = true }: PatchOperationListProps) => (
+  <ul className="max-h-72 overflow-y-auto space-y-1 text-xs sm:text-sm">
+    {items.map(({ operation, error, skipped }, index) => (
+      <li key={index} className={`flex items-start gap-2 ${skipped ? 'opacity-50' : ''}`}>
+        {showStatus && <StatusIcon error={error} skipped={skipped} />}
+        <span className="min-w-0">
+          <span className="font-mono">
+            <span className="text-muted-foreground">{operation.op}</span>{' '}
+            <span className="text-foreground break-all">{describeOperation(operation)}</span>
+          </span>
+          {error && <span className="block text-[10px] sm:text-xs text-destructive">{error}</span>}
+          {skipped && <span className="block text-[10px] sm:text-xs text-muted-foreground">Not applied</span>}
+        </span>
+      </li>
+    ))}
+  </ul>
+);
+
+interface PatchPreviewSummaryProps {
+  preview: PatchPreview;
+  // Whether the user chose to skip failing operations rather than abort
+  partial: boolean;
+  onPartialChange: (partial: boolean) => void;
+}
+
+// What applying the patch will do, with the opt-in to apply it partially when something fails
+export const PatchPreviewSummary = ({ preview, partial, onPartialChange }: PatchPreviewSummaryProps) => {
+  const total = preview.results.length;
+  const firstFailure = preview.results.findIndex(result => result.error !== undefined);
+
+  return (
+    <div className="space-y-2 text-xs sm:text-sm">
+      <p className="text-muted-foreground">
+        {preview.failed === 0
+          ? `All ${total} operation${total === 1 ? '' : 's'} apply cleanly.`
+          : preview.aborted
+            ? `Operation ${firstFailure + 1} failed, so none of the ${total} operations will be applied.`
+            : `${preview.applied} of ${total} operations will be applied; ${preview.failed} failed` +
+              (preview.skipped > 0 ? ` and ${preview.skipped} after a failed test are left out.` : '.')}
+      </p>
+      {preview.failed > 0 && (
+        <div className="flex items-center gap-3">
+          <span className="flex-1 text-foreground">Apply the operations that succeed anyway</span>
+          <button
+            onClick={() => onPartialChange(!partial)}
+            className={`discord-toggle flex-shrink-0 ${partial ? 'active' : ''}`}
+            role="switch"
+            aria-checked={partial}
+            aria-label="Apply the operations that succeed anyway"
+          />
+        </div>
+      )}
+      <PatchOperationList items={preview.results} />
+    </div>
+  );
+};
@@ -0,0 +1,317 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, Check, Copy, Download, Pencil, Save, Trash2, Upload, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import {
+  createProfileId,
+  deleteProfile,
+  listProfiles,
+  parseLibrary,
+  saveProfile,
+  serializeLibrary,
+  uniqueProfileName,
+  type Profile,
+} from '@/lib/profileStore';
+import { downloadText } from '@/lib/download';
+
+interface ProfilesPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // False on the upload screen, where there is nothing to save yet
+  canSave: boolean;
+  // Serializes the open config, or returns null when it can't be saved
+  getCurrent: () => { text: string; fileName: string } | null;
+  // Called once the open config has been stored as a profile
+  onSaved: () => void;
+  // Switching first asks before discarding these
+  hasUnsavedEdits: boolean;
+  activeProfileId: string | null;
+  onOpenProfile: (profile: Profile) => void;
+}
+
+const LIBRARY_FILE_NAME = 'bb-config-profiles.json';
+
+export const ProfilesPanel = ({
+  open,
+  onOpenChange,
+  canSave,
+  getCurrent,
+  onSaved,
+  hasUnsavedEdits,
+  activeProfileId,
+  onOpenProfile,
+}: ProfilesPanelProps) => {
+  const [profiles, setProfiles] = useState<Profile[]>([]);
+  const [newName, setNewName] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  // Profile waiting for the user to confirm discarding unsaved edits
+  const [pendingSwitch, setPendingSwitch] = useState<Profile | null>(null);
+
+  const refresh = useCallback(() => {
+    listProfiles()
+      .then(setProfiles)
+      .catch(err => toast.error("Couldn't load profiles", { description: (err as Error).message }));
+  }, []);
+
+  useEffect(() => {
+    if (open) refresh();
+    setPendingSwitch(null);
+  }, [open, refresh]);
+
+  // Every change goes through here so the list always mirrors what is stored
+  const store = useCallback(async (profile: Profile, message: string) => {
+    let stored = false;
+    try {
+      await saveProfile(profile);
+      toast.success(message);
+      stored = true;
+    } catch (err) {
+      toast.error("Couldn't save profile", { description: (err as Error).message });
+    }
+    refresh();
+    return stored;
+  }, [refresh]);
+
+  const names = profiles.map(profile => profile.name);
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId);
+
+  const handleSaveNew = () => {
+    const current = getCurrent();
+    const name = newName.trim();
+    if (!current || !name) return;
+
+    const now = Date.now();
+    const profile = { id: createProfileId(), name: uniqueProfileName(name, names), ...current, createdAt: now, updatedAt: now };
+    setNewName('');
+    store(profile, `Saved profile "${profile.name}"`).then(stored => stored && onSaved());
+  };
+
+  const handleUpdate = (profile: Profile) => {
+    const current = getCurrent();
+    if (!current) return;
+    const updated = { ...profile, ...current, updatedAt: Date.now() };
+    store(updated, `Updated profile "${profile.name}"`).then(stored => stored && onSaved());
+  };
+
+  const handleSwitch = (profile: Profile) => {
+    if (hasUnsavedEdits) {
+      setPendingSwitch(profile);
+      return;
+    }
+    onOpenProfile(profile);
+  };
+
+  const confirmSwitch = () => {
+    if (pendingSwitch) onOpenProfile(pendingSwitch);
+    setPendingSwitch(null);
+  };
+
+  const handleRename = () => {
+    if (!renaming) return;
+    const profile = profiles.find(item => item.id === renaming.id);
+    const name = renaming.name.trim();
+    setRenaming(null);
+    if (!profile || !name || name === profile.name) return;
+    const others = names.filter(existing => existing !== profile.name);
+    store({ ...profile, name: uniqueProfileName(name, others), updatedAt: Date.now() }, 'Profile renamed');
+  };
+
+  const handleDuplicate = (profile: Profile) => {
+    const now = Date.now();
+    const name = uniqueProfileName(`${profile.name} copy`, names);
+    store({ ...profile, id: createProfileId(), name, createdAt: now, updatedAt: now }, `Created "${name}"`);
+  };
+
+  const handleDelete = (profile: Profile) => {
+    deleteProfile(profile.id)
+      .then(() => toast.success(`Deleted profile "${profile.name}"`))
+      .catch(err => toast.error("Couldn't delete profile", { description: (err as Error).message }))
+      .finally(refresh);
+  };
+
+  const handleImport = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = async (e) => {
+      try {
+        const imported = parseLibrary(e.target?.result as string);
+        const taken = [...names];
+        for (const profile of imported) {
+          const name = uniqueProfileName(profile.name, taken);
+          taken.push(name);
+          await saveProfile({ ...profile, id: createProfileId(), name });
+        }
+        toast.success(`Imported ${imported.length} profile${imported.length === 1 ? '' : 's'}`);
+      } catch (err) {
+        toast.error('Import failed', { description: (err as Error).message });
+      }
+      refresh();
+    };
+    reader.readAsText(file);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-md flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Profiles</SheetTitle>
+          <SheetDescription>Keep named setups in this browser and switch between them in one click.</SheetDescription>
+        </SheetHeader>
+
+        {canSave && (
+          <div className="space-y-2">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSaveNew();
+              }}
+              className="flex gap-2"
+            >
+              <input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Profile name, e.g. PvP"
+                className="discord-input flex-1 min-w-0"
+                aria-label="New profile name"
+              />
+              <button type="submit" disabled={!newName.trim()} className="discord-btn flex items-center gap-1.5 text-xs sm:text-sm px-3 disabled:opacity-40">
+                <Save className="w-3.5 h-3.5" />
+                Save
+              </button>
+            </form>
+            {activeProfile && (
+              <button
+                onClick={() => handleUpdate(activeProfile)}
+                className="w-full discord-btn-secondary text-xs sm:text-sm px-3 py-1.5 truncate"
+              >
+                Update "{activeProfile.name}" with current settings
+              </button>
+            )}
+          </div>
+        )}
+
+        {pendingSwitch && (
+          <div className="flex items-start gap-2 rounded-md border border-[hsl(var(--discord-yellow))]/50 p-3 text-xs sm:text-sm">
+            <AlertTriangle className="w-4 h-4 text-[hsl(var(--discord-yellow))] flex-shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0 space-y-2">
+              <p className="text-foreground">
+                The open config has unsaved edits. Switch to "{pendingSwitch.name}" and discard them?
+              </p>
+              <div className="flex gap-2">
+                <button onClick={confirmSwitch} className="discord-btn text-xs sm:text-sm px-3 py-1">
+                  Discard and switch
+                </button>
+                <button onClick={() => setPendingSwitch(null)} className="discord-btn-secondary text-xs sm:text-sm px-3 py-1">
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <ul className="flex-1 overflow-y-auto -mx-2 space-y-0.5">
+          {profiles.length === 0 && (
+            <li className="px-2 py-4 text-center text-xs sm:text-sm text-muted-foreground">No profiles saved yet.</li>
+          )}
+          {profiles.map(profile => {
+            const isActive = profile.id === activeProfileId;
+
+            return (
+              <li
+                key={profile.id}
+                className={`flex items-center gap-1 rounded-md px-2 py-1.5 group ${isActive ? 'bg-primary/15 ring-1 ring-primary/40' : 'hover:bg-muted'}`}
+              >
+                {renaming?.id === profile.id ? (
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleRename();
+                    }}
+                    className="flex-1 flex items-center gap-1 min-w-0"
+                  >
+                    <input
+                      autoFocus
+                      value={renaming.name}
+                      onChange={(e) => setRenaming({ id: profile.id, name: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Escape' && setRenaming(null)}
+                      className="discord-input flex-1 min-w-0 py-1"
+                      aria-label="Profile name"
+                    />
+                    <button type="submit" className="text-muted-foreground hover:text-foreground p-1" aria-label="Save name">
+                      <Check className="w-3.5 h-3.5" />
+                    </button>
+                    <button type="button" onClick={() => setRenaming(null)} className="text-muted-foreground hover:text-foreground p-1" aria-label="Cancel rename">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </form>
+                ) : (
+                  <>
+                    <button onClick={() => handleSwitch(profile)} className="flex-1 min-w-0 text-left" title="Switch to this profile">
+                      <span className="block text-xs sm:text-sm text-foreground truncate">{profile.name}</span>
+                      <span className="block text-[10px] sm:text-xs text-muted-foreground truncate">
+                        {profile.fileName} · {new Date(profile.updatedAt).toLocaleString()}
+                      </span>
+                    </button>
+                    <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 flex-shrink-0">
+                      <button
+                        onClick={() => setRenaming({ id: profile.id, name: profile.name })}
+                        className="text-muted-foreground hover:text-foreground p-1"
+                        aria-label={`Rename ${profile.name}`}
+                        title="Rename"
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => handleDuplicate(profile)}
+                        className="text-muted-foreground hover:text-foreground p-1"
+                        aria-label={`Duplicate ${profile.name}`}
+                        title="Duplicate"
+                      >
+                        <Copy className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(profile)}
+                        className="text-muted-foreground hover:text-destructive p-1"
+                        aria-label={`Delete ${profile.name}`}
+                        title="Delete"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex gap-2">
+          <input
+            id="profile-library-input"
+            type="file"
+            accept=".json"
+            onChange={(e) => {
+              if (e.target.files?.[0]) handleImport(e.target.files[0]);
+              e.target.value = '';
+            }}
+            className="hidden"
+          />
+          <button
+            onClick={() => document.getElementById('profile-library-input')?.click()}
+            className="flex-1 discord-btn-secondary flex items-center justify-center gap-1.5 text-xs sm:text-sm px-3 py-1.5"
+          >
+            <Upload className="w-3.5 h-3.5" />
+            Import library
+          </button>
+          <button
+            onClick={() => downloadText(serializeLibrary(profiles), LIBRARY_FILE_NAME)}
+            disabled={profiles.length === 0}
+            className="flex-1 discord-btn-secondary flex items-center justify-center gap-1.5 text-xs sm:text-sm px-3 py-1.5 disabled:opacity-40"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Export library
+          </button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
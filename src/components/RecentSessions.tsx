@@ -0,0 +1,63 @@
+import { Clock, RotateCcw, Trash2 } from 'lucide-react';
+import type { StoredSession } from '@/lib/sessionStore';
+
+interface RecentSessionsProps<T> {
+  sessions: StoredSession<T>[];
+  onRestore: (session: StoredSession<T>) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatTimestamp = (timestamp: number) => {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date().toDateString() ? date.toLocaleTimeString() : date.toLocaleString();
+};
+
+const editCount = <T,>(session: StoredSession<T>) => session.history.index;
+
+export const RecentSessions = <T,>({ sessions, onRestore, onDelete }: RecentSessionsProps<T>) => {
+  if (sessions.length === 0) return null;
+  const [latest, ...older] = sessions;
+
+  return (
+    <div className="mt-6 space-y-3">
+      <div className="discord-card p-3 sm:p-4 flex items-center gap-3">
+        <RotateCcw className="w-4 h-4 text-primary flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <p className="text-xs sm:text-sm font-semibold text-foreground truncate">Restore {latest.fileName}?</p>
+          <p className="text-[10px] sm:text-xs text-muted-foreground">
+            Last edited {formatTimestamp(latest.updatedAt)}
+            {editCount(latest) > 0 && ` · ${editCount(latest)} edit${editCount(latest) === 1 ? '' : 's'}`}
+          </p>
+        </div>
+        <button onClick={() => onRestore(latest)} className="discord-btn text-xs sm:text-sm px-3 py-1.5 flex-shrink-0">
+          Restore
+        </button>
+      </div>
+
+      {older.length > 0 && (
+        <div>
+          <h2 className="discord-section-header">Recent sessions</h2>
+          <ul className="space-y-0.5">
+            {older.map(session => (
+              <li key={session.id} className="flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-muted group">
+                <Clock className="w-3.5 h-3.5 text-muted-foreground flex-shrink-0" />
+                <button onClick={() => onRestore(session)} className="flex-1 min-w-0 text-left">
+                  <span className="block text-xs sm:text-sm text-foreground truncate">{session.fileName}</span>
+                  <span className="block text-[10px] sm:text-xs text-muted-foreground">{formatTimestamp(session.updatedAt)}</span>
+                </button>
+                <button
+                  onClick={() => onDelete(session.id)}
+                  className="text-muted-foreground hover:text-destructive p-1 opacity-0 group-hover:opacity-100 focus:opacity-100 flex-shrink-0"
+                  aria-label={`Forget ${session.fileName}`}
+                  title="Forget this session"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
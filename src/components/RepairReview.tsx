@@ -0,0 +1,60 @@
+import { Wrench } from 'lucide-react';
+import type { RepairResult } from '@/lib/jsoncRepair';
+import { ParseErrorView } from './ParseErrorView';
+
+interface RepairReviewProps {
+  result: RepairResult;
+  onAccept: () => void;
+  onCancel: () => void;
+}
+
+export const RepairReview = ({ result, onAccept, onCancel }: RepairReviewProps) => {
+  if (result.error) {
+    return (
+      <div className="mt-4 space-y-2">
+        <p className="text-xs sm:text-sm text-muted-foreground">
+          {result.fixes.length > 0
+            ? `Applied ${result.fixes.length} fix${result.fixes.length === 1 ? '' : 'es'}, but the file still has an error that can't be repaired automatically:`
+            : "This error can't be repaired automatically:"}
+        </p>
+        <ParseErrorView message={result.error.message} diagnostic={result.error.diagnostic} source={result.text} />
+        <button onClick={onCancel} className="discord-btn-outline text-xs sm:text-sm px-3 py-1.5">
+          Back
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-4 discord-card p-3 sm:p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Wrench className="w-4 h-4 text-primary flex-shrink-0" />
+        <span className="text-xs sm:text-sm font-semibold text-foreground">
+          {result.fixes.length === 0
+            ? 'No repairs were needed'
+            : `${result.fixes.length} repair${result.fixes.length === 1 ? '' : 's'} applied`}
+        </span>
+      </div>
+
+      {result.fixes.length > 0 && (
+        <ul className="max-h-56 overflow-y-auto space-y-1 text-xs sm:text-sm">
+          {result.fixes.map((fix, index) => (
+            <li key={index} className="flex gap-3">
+              <span className="text-muted-foreground font-mono flex-shrink-0 w-14 text-right">L{fix.line}</span>
+              <span className="text-foreground">{fix.description}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="discord-btn-outline text-xs sm:text-sm px-3 py-1.5">
+          Cancel
+        </button>
+        <button onClick={onAccept} className="discord-btn text-xs sm:text-sm px-3 py-1.5">
+          Open repaired file
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSub,
+  SidebarMenuSubButton,
+  SidebarMenuSubItem,
+  useSidebar,
+} from '@/components/ui/sidebar';
+import { SECTION_MARKERS, type SectionCategory } from '@/lib/jsonParser';
+
+interface SectionSidebarProps {
+  categories: SectionCategory[];
+  activeCategory: string | null;
+  onSelectCategory: (category: string) => void;
+  onSelectSection: (section: string) => void;
+  sectionMarker: string;
+  onSectionMarkerChange: (marker: string) => void;
+}
+
+export const SectionSidebar = ({
+  categories,
+  activeCategory,
+  onSelectCategory,
+  onSelectSection,
+  sectionMarker,
+  onSectionMarkerChange,
+}: SectionSidebarProps) => {
+  const { isMobile, setOpenMobile } = useSidebar();
+
+  // Close the mobile sheet after navigating so the target is visible
+  const navigate = (action: () => void) => {
+    action();
+    if (isMobile) setOpenMobile(false);
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <label className="text-xs font-medium text-sidebar-foreground/70 px-2" htmlFor="section-marker">
+          Section headers
+        </label>
+        <select
+          id="section-marker"
+          value={sectionMarker}
+          onChange={(e) => onSectionMarkerChange(e.target.value)}
+          className="discord-input py-1.5 text-xs"
+        >
+          {SECTION_MARKERS.map(marker => (
+            <option key={marker.id} value={marker.id}>{marker.label}</option>
+          ))}
+        </select>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Categories</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {categories.map(category => {
+                const named = category.subcategories.filter(sub => sub.name !== null);
+
+                return (
+                  <SidebarMenuItem key={category.name}>
+                    <SidebarMenuButton
+                      isActive={activeCategory === category.name}
+                      onClick={() => navigate(() => onSelectCategory(category.name))}
+                    >
+                      <span className="truncate">{category.name}</span>
+                    </SidebarMenuButton>
+                    <SidebarMenuBadge>{category.keyCount}</SidebarMenuBadge>
+
+                    {named.length > 0 && activeCategory === category.name && (
+                      <SidebarMenuSub>
+                        {named.map(sub => (
+                          <SidebarMenuSubItem key={sub.section}>
+                            <SidebarMenuSubButton asChild>
+                              <button className="w-full" onClick={() => navigate(() => onSelectSection(sub.section))}>
+                                <span className="truncate">{sub.name}</span>
+                                <span className="ml-auto text-xs opacity-70">{sub.keys.length}</span>
+                              </button>
+                            </SidebarMenuSubButton>
+                          </SidebarMenuSubItem>
+                        ))}
+                      </SidebarMenuSub>
+                    )}
+                  </SidebarMenuItem>
+                );
+              })}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+};
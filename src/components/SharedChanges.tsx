@@ -0,0 +1,54 @@
+import { useMemo, useState } from 'react';
+import { Link2, X } from 'lucide-react';
+import { previewPatch, type JsonPatchOperation } from '@/lib/jsonPatch';
+import { isPlainObject } from '@/lib/jsonValue';
+import { PatchOperationList, PatchPreviewSummary } from './PatchOperationList';
+
+type ConfigData = Record<string, unknown>;
+
+interface SharedChangesProps {
+  operations: JsonPatchOperation[];
+  // The open config, or null on the upload screen
+  data: ConfigData | null;
+  onApply: (data: ConfigData) => void;
+  onDismiss: () => void;
+}
+
+export const SharedChanges = ({ operations, data, onApply, onDismiss }: SharedChangesProps) => {
+  const [partial, setPartial] = useState(false);
+  const preview = useMemo(() => (data ? previewPatch(data, operations, { partial }) : null), [data, operations, partial]);
+
+  return (
+    <div className="discord-card p-3 sm:p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Link2 className="w-4 h-4 text-primary flex-shrink-0" />
+        <span className="flex-1 text-xs sm:text-sm font-semibold text-foreground">
+          Shared link with {operations.length} change{operations.length === 1 ? '' : 's'}
+        </span>
+        <button onClick={onDismiss} className="text-muted-foreground hover:text-foreground p-1" aria-label="Dismiss shared changes">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {preview ? (
+        <>
+          <PatchPreviewSummary preview={preview} partial={partial} onPartialChange={setPartial} />
+          <div className="flex justify-end">
+            <button
+              onClick={() => isPlainObject(preview.data) && onApply(preview.data)}
+              disabled={preview.applied === 0}
+              className="discord-btn text-xs sm:text-sm px-3 py-1.5 disabled:opacity-40"
+            >
+              Apply shared changes
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-xs sm:text-sm text-muted-foreground">Upload your global_variables.json to apply these changes.</p>
+          <PatchOperationList items={operations.map(operation => ({ operation }))} showStatus={false} />
+        </>
+      )}
+    </div>
+  );
+};
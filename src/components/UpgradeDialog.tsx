@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowUpCircle, FileJson } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { parseJsonWithComments } from '@/lib/jsonParser';
+import { mergeConfigs, resolveConflicts, formatMergePath, type ConflictChoice, type MergeResult } from '@/lib/configMerge';
+import { isPlainObject, previewValue } from '@/lib/jsonValue';
+
+type ConfigData = Record<string, unknown>;
+
+interface LoadedFile {
+  name: string;
+  text: string;
+  data: ConfigData;
+}
+
+type Slot = 'base' | 'ours' | 'theirs';
+
+export interface UpgradeOutcome {
+  // The new default's source, so its sections and comments are kept
+  text: string;
+  name: string;
+  data: ConfigData;
+  label: string;
+}
+
+interface UpgradeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Contents of the editor, offered as the customised file
+  current?: { name: string; data: ConfigData } | null;
+  onComplete: (outcome: UpgradeOutcome) => void;
+}
+
+const SLOTS: { slot: Slot; label: string; hint: string }[] = [
+  { slot: 'base', label: 'Old default', hint: 'The unmodified file from the version you customised' },
+  { slot: 'ours', label: 'Your file', hint: 'Your customised global_variables.json' },
+  { slot: 'theirs', label: 'New default', hint: 'The unmodified file from the new release' },
+];
+
+const versionOf = (file?: LoadedFile) => {
+  const version = file?.data.$bb_version;
+  return typeof version === 'string' || typeof version === 'number' ? String(version) : null;
+};
+
+export const UpgradeDialog = ({ open, onOpenChange, current, onComplete }: UpgradeDialogProps) => {
+  const [files, setFiles] = useState<Partial<Record<Slot, LoadedFile>>>({});
+  const [errors, setErrors] = useState<Partial<Record<Slot, string>>>({});
+  const [merge, setMerge] = useState<MergeResult | null>(null);
+  const [choices, setChoices] = useState<ConflictChoice[]>([]);
+
+  // Start over whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setFiles(current ? { ours: { name: current.name, text: '', data: current.data } } : {});
+    setErrors({});
+    setMerge(null);
+    setChoices([]);
+  }, [open, current]);
+
+  const handleFile = (slot: Slot, file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      const text = e.target?.result as string;
+      try {
+        const { data } = parseJsonWithComments(text);
+        if (!isPlainObject(data)) throw new Error('Expected a JSON object at the top level');
+        setFiles(prev => ({ ...prev, [slot]: { name: file.name, text, data } }));
+        setErrors(prev => ({ ...prev, [slot]: undefined }));
+      } catch (err) {
+        setFiles(prev => ({ ...prev, [slot]: undefined }));
+        setErrors(prev => ({ ...prev, [slot]: (err as Error).message }));
+      }
+      setMerge(null);
+    };
+    reader.readAsText(file);
+  };
+
+  const handleMerge = () => {
+    if (!files.base || !files.ours || !files.theirs) return;
+    const result = mergeConfigs(files.base.data, files.ours.data, files.theirs.data);
+    setMerge(result);
+    setChoices(result.conflicts.map((): ConflictChoice => 'ours'));
+  };
+
+  const handleApply = () => {
+    if (!merge || !files.theirs) return;
+    const fromVersion = versionOf(files.base);
+    const toVersion = versionOf(files.theirs);
+    onComplete({
+      text: files.theirs.text,
+      name: files.theirs.name,
+      data: resolveConflicts(merge, choices),
+      label: fromVersion && toVersion ? `Upgrade ${fromVersion} → ${toVersion}` : 'Upgrade to new default',
+    });
+  };
+
+  const summary = useMemo(() => {
+    if (!merge) return [];
+    return [
+      `${merge.carried.length} change${merge.carried.length === 1 ? '' : 's'} carried over`,
+      `${merge.added.length} new key${merge.added.length === 1 ? '' : 's'}`,
+      `${merge.removed.length} removed key${merge.removed.length === 1 ? '' : 's'}`,
+    ];
+  }, [merge]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl w-[calc(100vw-2rem)] max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Upgrade to a new version</DialogTitle>
+          <DialogDescription>
+            Carry your changes onto a new default file. Keys the new version adds are kept, keys it removes are dropped,
+            and settings changed on both sides are listed for you to decide.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 overflow-y-auto space-y-4">
+          <div className="grid gap-2 sm:grid-cols-3">
+            {SLOTS.map(({ slot, label, hint }) => {
+              const file = files[slot];
+              const version = versionOf(file);
+              const inputId = `upgrade-${slot}-input`;
+
+              return (
+                <div key={slot} className="discord-card p-3 space-y-2">
+                  <div className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{label}</div>
+                  <p className="text-[10px] sm:text-xs text-muted-foreground">{hint}</p>
+                  <input
+                    id={inputId}
+                    type="file"
+                    accept=".json"
+                    onChange={(e) => {
+                      if (e.target.files?.[0]) handleFile(slot, e.target.files[0]);
+                      e.target.value = '';
+                    }}
+                    className="hidden"
+                  />
+                  <button
+                    onClick={() => document.getElementById(inputId)?.click()}
+                    className="w-full discord-btn-secondary flex items-center gap-2 text-xs px-2 py-1.5 min-w-0"
+                  >
+                    <FileJson className="w-3.5 h-3.5 flex-shrink-0" />
+                    <span className="truncate">{file ? file.name : 'Choose file'}</span>
+                  </button>
+                  {version && <div className="text-[10px] sm:text-xs text-muted-foreground">$bb_version {version}</div>}
+                  {errors[slot] && <p className="text-[10px] sm:text-xs text-destructive break-words">{errors[slot]}</p>}
+                </div>
+              );
+            })}
+          </div>
+
+          {merge && (
+            <div className="space-y-3">
+              <p className="text-xs sm:text-sm text-muted-foreground">{summary.join(' · ')}</p>
+
+              {merge.conflicts.length === 0 ? (
+                <p className="text-xs sm:text-sm text-foreground">No conflicts. Everything merged cleanly.</p>
+              ) : (
+                <div className="space-y-2">
+                  <p className="text-xs sm:text-sm font-semibold text-foreground">
+                    {merge.conflicts.length} conflict{merge.conflicts.length === 1 ? '' : 's'}
+                  </p>
+                  {merge.conflicts.map((conflict, index) => (
+                    <div key={formatMergePath(conflict.path)} className="discord-card p-3 space-y-2">
+                      <div className="text-xs sm:text-sm font-mono text-foreground break-all">{formatMergePath(conflict.path)}</div>
+                      <div className="text-[10px] sm:text-xs text-muted-foreground font-mono">
+                        Old default: {previewValue(conflict.base, 60)}
+                      </div>
+                      <div className="grid gap-2 sm:grid-cols-2">
+                        {(['ours', 'theirs'] as const).map(choice => (
+                          <label
+                            key={choice}
+                            className={`flex items-start gap-2 rounded-md border p-2 cursor-pointer text-xs ${
+                              choices[index] === choice ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted'
+                            }`}
+                          >
+                            <input
+                              type="radio"
+                              name={`conflict-${index}`}
+                              checked={choices[index] === choice}
+                              onChange={() => setChoices(prev => prev.map((value, i) => (i === index ? choice : value)))}
+                              className="mt-0.5"
+                            />
+                            <span className="min-w-0">
+                              <span className="block font-medium text-foreground">
+                                {choice === 'ours' ? 'Keep mine' : 'Use new default'}
+                              </span>
+                              <span className="block font-mono text-muted-foreground break-all">
+                                {previewValue(choice === 'ours' ? conflict.ours : conflict.theirs, 60)}
+                              </span>
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <button onClick={() => onOpenChange(false)} className="discord-btn-outline">
+            Cancel
+          </button>
+          {merge ? (
+            <button onClick={handleApply} className="discord-btn flex items-center justify-center gap-2">
+              <ArrowUpCircle className="w-4 h-4" />
+              Open merged file
+            </button>
+          ) : (
+            <button
+              onClick={handleMerge}
+              disabled={!files.base || !files.ours || !files.theirs}
+              className="discord-btn disabled:opacity-40"
+            >
+              Merge
+            </button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,451 @@
+import { useState, type ReactNode } from 'react';
+import { ChevronDown, ChevronRight, Copy, GripVertical, Plus, Trash2 } from 'lucide-react';
+
+type JsonType = 'string' | 'number' | 'boolean' | 'null' | 'object' | 'array';
+
+const JSON_TYPES: JsonType[] = ['string', 'number', 'boolean', 'null', 'object', 'array'];
+
+const DEFAULT_VALUES: Record<JsonType, () => unknown> = {
+  string: () => '',
+  number: () => 0,
+  boolean: () => false,
+  null: () => null,
+  object: () => ({}),
+  array: () => [],
+};
+
+const COMPACT_ARRAY_LENGTH = 4;
+
+const typeOf = (value: unknown): JsonType =>
+  Array.isArray(value) ? 'array' : value === null ? 'null' : (typeof value as JsonType);
+
+// Switching type keeps what carries over (42 <-> "42", true <-> "true"), otherwise starts empty
+function convertValue(value: unknown, type: JsonType): unknown {
+  if (typeOf(value) === type) return value;
+  switch (type) {
+    case 'string':
+      return typeof value === 'number' || typeof value === 'boolean' ? String(value) : '';
+    case 'number': {
+      const number = typeof value === 'string' ? parseFloat(value) : typeof value === 'boolean' ? Number(value) : NaN;
+      return Number.isFinite(number) ? number : 0;
+    }
+    case 'boolean':
+      return value === 'true' || (typeof value === 'number' && value !== 0);
+    default:
+      return DEFAULT_VALUES[type]();
+  }
+}
+
+// Own keys only: names like "constructor" are valid properties
+const hasKey = (object: Record<string, unknown>, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+let lastRowId = 0;
+const createRowId = () => ++lastRowId;
+
+const removeAt = <T,>(list: T[], index: number) => list.filter((_, i) => i !== index);
+const insertAfter = <T,>(list: T[], index: number, item: T) => [...list.slice(0, index + 1), item, ...list.slice(index + 1)];
+const moveItem = <T,>(list: T[], from: number, to: number) => {
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// Stable keys for array rows, so a row's nested editor state moves with its item. Edits made
+// here update the ids alongside the value; outside changes (undo, reset) only fix up the count.
+function useRowIds(length: number): [number[], (ids: number[]) => void] {
+  const [ids, setIds] = useState(() => Array.from({ length }, createRowId));
+  if (ids.length !== length) {
+    const next = ids.slice(0, length);
+    while (next.length < length) next.push(createRowId());
+    setIds(next);
+    return [next, setIds];
+  }
+  return [ids, setIds];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Short lists of numbers, strings or booleans (colors, sizes, offsets) are edited inline
+const isCompactArray = (value: unknown[]) =>
+  value.length > 0 &&
+  value.length <= COMPACT_ARRAY_LENGTH &&
+  value.every(item => ['number', 'string', 'boolean'].includes(typeof item));
+
+interface ValueFieldProps {
+  label: ReactNode;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  labelClassName?: string;
+  // Extra controls shown at the end of the row, e.g. a remove button
+  actions?: ReactNode;
+  depth?: number;
+  // Marks the row as changed from the originally loaded value
+  isModified?: boolean;
+}
+
+interface EditorProps {
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+interface ArrayEditorProps {
+  value: unknown[];
+  rowIds: number[];
+  // Changes the items and their row ids together
+  onChange: (value: unknown[], rowIds: number[]) => void;
+}
+
+const PrimitiveEditor = ({ value, onChange }: EditorProps) => {
+  if (typeof value === 'boolean') {
+    return (
+      <button
+        onClick={() => onChange(!value)}
+        className={`discord-toggle flex-shrink-0 ${value ? 'active' : ''}`}
+        aria-label={value ? 'Enabled' : 'Disabled'}
+      />
+    );
+  }
+
+  if (typeof value === 'number') {
+    return (
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+        className="discord-input w-20 text-center flex-shrink-0"
+      />
+    );
+  }
+
+  if (typeof value === 'string') {
+    return (
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="discord-input w-32 sm:w-40 flex-shrink-0"
+      />
+    );
+  }
+
+  return (
+    <span className="text-muted-foreground text-xs font-mono bg-muted px-2 py-1 rounded flex-shrink-0">
+      null
+    </span>
+  );
+};
+
+// Property name that can be renamed in place; invalid names snap back to the current one
+const KeyInput = ({ name, onRename }: { name: string; onRename: (name: string) => boolean }) => {
+  const [draft, setDraft] = useState(name);
+  const [prevName, setPrevName] = useState(name);
+  if (name !== prevName) {
+    setPrevName(name);
+    setDraft(name);
+  }
+
+  const commit = () => {
+    if (draft !== name && !onRename(draft)) setDraft(name);
+  };
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') setDraft(name);
+      }}
+      className="bg-transparent outline-none rounded-[3px] px-1 -mx-1 min-w-0 w-full text-xs sm:text-sm font-mono text-foreground focus:bg-background focus:ring-2 focus:ring-primary/50"
+      aria-label="Property name"
+    />
+  );
+};
+
+const TypeSelect = ({ value, onChange }: { value: JsonType; onChange: (type: JsonType) => void }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as JsonType)}
+    className="discord-input py-1 text-xs sm:text-sm w-24 flex-shrink-0"
+    aria-label="Value type"
+  >
+    {JSON_TYPES.map(option => (
+      <option key={option} value={option}>{option}</option>
+    ))}
+  </select>
+);
+
+const AddPropertyRow = ({ existing, onAdd }: { existing: Record<string, unknown>; onAdd: (key: string, value: unknown) => void }) => {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<JsonType>('string');
+  const isValid = name.length > 0 && !hasKey(existing, name);
+
+  const submit = () => {
+    if (!isValid) return;
+    onAdd(name, DEFAULT_VALUES[type]());
+    setName('');
+  };
+
+  return (
+    <div className="flex items-center gap-2 pt-1">
+      <input
+        type="text"
+        value={name}
+        placeholder="New property"
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && submit()}
+        className="discord-input py-1 text-xs sm:text-sm flex-1 min-w-0"
+      />
+      <TypeSelect value={type} onChange={setType} />
+      <button
+        onClick={submit}
+        disabled={!isValid}
+        className="discord-btn-secondary p-1.5 flex-shrink-0 disabled:opacity-50"
+        aria-label="Add property"
+      >
+        <Plus className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
+
+const ObjectEditor = ({ value, onChange, depth }: EditorProps & { value: Record<string, unknown>; depth: number }) => {
+  const entries = Object.entries(value);
+
+  const rename = (from: string, to: string) => {
+    if (!to || hasKey(value, to)) return false;
+    // Rebuild the object so the renamed property keeps its position
+    onChange(Object.fromEntries(entries.map(([key, item]) => [key === from ? to : key, item])));
+    return true;
+  };
+
+  const remove = (key: string) => {
+    onChange(Object.fromEntries(entries.filter(([entryKey]) => entryKey !== key)));
+  };
+
+  return (
+    <div className="space-y-0.5">
+      {entries.length === 0 && (
+        <p className="text-xs text-muted-foreground italic px-2 py-1">No properties</p>
+      )}
+      {entries.map(([key, item]) => (
+        <ValueField
+          key={key}
+          label={<KeyInput name={key} onRename={(to) => rename(key, to)} />}
+          value={item}
+          onChange={(next) => onChange({ ...value, [key]: next })}
+          depth={depth + 1}
+          actions={
+            <button
+              onClick={() => remove(key)}
+              className="text-muted-foreground hover:text-destructive p-1 flex-shrink-0"
+              aria-label={`Remove ${key}`}
+            >
+              <Trash2 className="w-3.5 h-3.5" />
+            </button>
+          }
+        />
+      ))}
+      <AddPropertyRow existing={value} onAdd={(key, item) => onChange({ ...value, [key]: item })} />
+    </div>
+  );
+};
+
+const CompactArrayEditor = ({ value, rowIds, onChange }: ArrayEditorProps) => (
+  <div className="flex items-center gap-1 flex-shrink-0">
+    {value.map((item, index) => {
+      const update = (next: unknown) => onChange(value.map((current, i) => (i === index ? next : current)), rowIds);
+
+      if (typeof item === 'boolean') {
+        return <PrimitiveEditor key={rowIds[index]} value={item} onChange={update} />;
+      }
+
+      return (
+        <input
+          key={rowIds[index]}
+          type={typeof item === 'number' ? 'number' : 'text'}
+          value={item as string | number}
+          onChange={(e) => update(typeof item === 'number' ? parseFloat(e.target.value) || 0 : e.target.value)}
+          className={`discord-input px-1.5 py-1.5 text-center ${typeof item === 'number' ? 'w-14' : 'w-20'}`}
+          aria-label={`Item ${index}`}
+        />
+      );
+    })}
+  </div>
+);
+
+const ArrayEditor = ({ value, rowIds, onChange, depth }: ArrayEditorProps & { depth: number }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const [newType, setNewType] = useState<JsonType>(() => (value.length > 0 ? typeOf(value[value.length - 1]) : 'string'));
+
+  const remove = (index: number) => onChange(removeAt(value, index), removeAt(rowIds, index));
+
+  const duplicate = (index: number) => {
+    const copy = JSON.parse(JSON.stringify(value[index]));
+    onChange(insertAfter(value, index, copy), insertAfter(rowIds, index, createRowId()));
+  };
+
+  const move = (from: number, to: number) => {
+    if (from === to) return;
+    onChange(moveItem(value, from, to), moveItem(rowIds, from, to));
+  };
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="space-y-0.5">
+      {value.length === 0 && (
+        <p className="text-xs text-muted-foreground italic px-2 py-1">Empty array</p>
+      )}
+      {value.map((item, index) => (
+        <div
+          key={rowIds[index]}
+          draggable
+          onDragStart={(e) => {
+            // Nested arrays have their own drag state
+            e.stopPropagation();
+            setDragIndex(index);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragOver={(e) => {
+            if (dragIndex === null) return;
+            e.preventDefault();
+            e.stopPropagation();
+            setDropIndex(index);
+          }}
+          onDrop={(e) => {
+            if (dragIndex === null) return;
+            e.preventDefault();
+            e.stopPropagation();
+            move(dragIndex, index);
+            endDrag();
+          }}
+          onDragEnd={endDrag}
+          className={`flex items-start rounded-md ${dropIndex === index && dragIndex !== index ? 'ring-1 ring-primary/60' : ''} ${dragIndex === index ? 'opacity-50' : ''}`}
+        >
+          <GripVertical className="w-3.5 h-3.5 mt-2.5 text-muted-foreground cursor-grab flex-shrink-0" aria-hidden />
+          <div className="flex-1 min-w-0">
+            <ValueField
+              label={<span className="font-mono text-muted-foreground">[{index}]</span>}
+              value={item}
+              onChange={(next) => onChange(value.map((current, i) => (i === index ? next : current)), rowIds)}
+              depth={depth + 1}
+              actions={
+                <>
+                  <button
+                    onClick={() => duplicate(index)}
+                    className="text-muted-foreground hover:text-foreground p-1 flex-shrink-0"
+                    aria-label={`Duplicate item ${index}`}
+                  >
+                    <Copy className="w-3.5 h-3.5" />
+                  </button>
+                  <button
+                    onClick={() => remove(index)}
+                    className="text-muted-foreground hover:text-destructive p-1 flex-shrink-0"
+                    aria-label={`Remove item ${index}`}
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                </>
+              }
+            />
+          </div>
+        </div>
+      ))}
+      <div className="flex items-center justify-end gap-2 pt-1">
+        <TypeSelect value={newType} onChange={setNewType} />
+        <button
+          onClick={() => onChange([...value, DEFAULT_VALUES[newType]()], [...rowIds, createRowId()])}
+          className="discord-btn-secondary flex items-center gap-1 px-2 py-1 text-xs sm:text-sm flex-shrink-0"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add item
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// A labelled row for any JSON value; objects and arrays expand into nested, collapsible editors
+export const ValueField = ({
+  label,
+  value,
+  onChange,
+  labelClassName = 'text-foreground',
+  actions,
+  depth = 0,
+  isModified = false,
+}: ValueFieldProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [rowIds, setRowIds] = useRowIds(Array.isArray(value) ? value.length : 0);
+  const rowPadding = depth === 0 ? 'py-2 sm:py-4 px-2 sm:px-3' : 'py-1 sm:py-1.5 px-2';
+  const typeSelect = <TypeSelect value={typeOf(value)} onChange={(type) => onChange(convertValue(value, type))} />;
+  const modifiedMarker = isModified && (
+    <span
+      className="w-1.5 h-1.5 rounded-full bg-[hsl(var(--discord-yellow))] flex-shrink-0"
+      title="Modified"
+      aria-label="Modified"
+    />
+  );
+
+  if (isObject(value) || Array.isArray(value)) {
+    const isArray = Array.isArray(value);
+    const count = isArray ? value.length : Object.keys(value).length;
+    const changeArray = (next: unknown[], nextIds: number[]) => {
+      setRowIds(nextIds);
+      onChange(next);
+    };
+
+    return (
+      <div className={`rounded-md ${depth === 0 ? '' : 'bg-background/40'}`}>
+        <div className={`discord-setting-row gap-2 ${rowPadding}`}>
+          <button
+            onClick={() => setIsExpanded(prev => !prev)}
+            className="flex items-center gap-1 text-muted-foreground hover:text-foreground flex-shrink-0"
+            aria-label={isExpanded ? 'Collapse' : 'Expand'}
+          >
+            {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          </button>
+          {modifiedMarker}
+          <span className={`flex-1 text-xs sm:text-sm truncate min-w-0 ${labelClassName}`}>{label}</span>
+          {isArray && !isExpanded && isCompactArray(value) ? (
+            <CompactArrayEditor value={value} rowIds={rowIds} onChange={changeArray} />
+          ) : (
+            <span className="text-muted-foreground text-xs bg-muted px-2 py-1 rounded flex-shrink-0">
+              {isArray ? `Array [${count}]` : `Object {${count}}`}
+            </span>
+          )}
+          {typeSelect}
+          {actions}
+        </div>
+        {isExpanded && (
+          <div className="ml-3 sm:ml-5 pl-2 sm:pl-3 pb-2 border-l border-border">
+            {isArray ? (
+              <ArrayEditor value={value} rowIds={rowIds} onChange={changeArray} depth={depth} />
+            ) : (
+              <ObjectEditor value={value} onChange={onChange} depth={depth} />
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={`discord-setting-row gap-2 ${rowPadding}`}>
+      {modifiedMarker}
+      <span className={`text-xs sm:text-sm truncate min-w-0 flex-1 mr-2 ${labelClassName}`}>{label}</span>
+      <PrimitiveEditor value={value} onChange={onChange} />
+      {typeSelect}
+      {actions}
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import * as React from "react";
+
+// Saves `value` shortly after it stops changing, and right away when the page is hidden or closed
+export function useAutosave<T>(value: T | null, save: (value: T) => Promise<void>, delay = 500) {
+  const pending = React.useRef<T | null>(null);
+  const saveRef = React.useRef(save);
+  saveRef.current = save;
+
+  const flush = React.useCallback(() => {
+    const next = pending.current;
+    if (next === null) return;
+    pending.current = null;
+    saveRef.current(next).catch((error) => console.error("Autosave failed:", error));
+  }, []);
+
+  React.useEffect(() => {
+    if (value === null) {
+      // Nothing to track any more; don't drop an edit that was still waiting for the timer
+      flush();
+      return;
+    }
+    pending.current = value;
+    const timer = window.setTimeout(flush, delay);
+    return () => window.clearTimeout(timer);
+  }, [value, delay, flush]);
+
+  React.useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flush();
+    };
+
+    window.addEventListener("pagehide", flush);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      flush();
+      window.removeEventListener("pagehide", flush);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [flush]);
+}
@@ -0,0 +1,114 @@
+import * as React from "react";
+
+// Consecutive edits to the same key within this window become a single step
+const COALESCE_WINDOW_MS = 1000;
+// Oldest steps are dropped beyond this; every step holds a full snapshot
+export const MAX_HISTORY = 200;
+
+export interface HistoryEntry<T> {
+  label: string;
+  // Top-level key the step changed, when it changed just one
+  key?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  // Full state after this step
+  snapshot: T;
+  timestamp: number;
+}
+
+export interface HistoryState<T> {
+  entries: HistoryEntry<T>[];
+  index: number;
+}
+
+export interface CommitOptions {
+  label: string;
+  key?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  coalesce?: boolean;
+}
+
+type HistoryAction<T> =
+  | { type: "reset"; snapshot: T | null; label: string }
+  | { type: "restore"; state: HistoryState<T> }
+  | { type: "commit"; snapshot: T; options: CommitOptions; timestamp: number }
+  | { type: "jump"; index: number };
+
+const EMPTY_HISTORY: HistoryState<never> = { entries: [], index: -1 };
+
+function reducer<T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> {
+  switch (action.type) {
+    case "reset":
+      if (action.snapshot === null) return EMPTY_HISTORY;
+      return { entries: [{ label: action.label, snapshot: action.snapshot, timestamp: Date.now() }], index: 0 };
+
+    case "restore":
+      return action.state;
+
+    case "commit": {
+      if (state.index < 0) return state;
+      const { snapshot, options, timestamp } = action;
+      const last = state.entries[state.index];
+      const isAtEnd = state.index === state.entries.length - 1;
+
+      if (
+        options.coalesce &&
+        isAtEnd &&
+        state.index > 0 &&
+        last.key !== undefined &&
+        last.key === options.key &&
+        timestamp - last.timestamp < COALESCE_WINDOW_MS
+      ) {
+        const merged = { ...last, newValue: options.newValue, snapshot, timestamp };
+        return { entries: [...state.entries.slice(0, state.index), merged], index: state.index };
+      }
+
+      const { coalesce, ...details } = options;
+      const entries = [...state.entries.slice(0, state.index + 1), { ...details, snapshot, timestamp }].slice(-MAX_HISTORY);
+      return { entries, index: entries.length - 1 };
+    }
+
+    case "jump":
+      if (action.index < 0 || action.index >= state.entries.length) return state;
+      return { ...state, index: action.index };
+  }
+}
+
+// Snapshot-based undo/redo history; every step stores the full state after it
+export function useEditHistory<T>() {
+  const [state, dispatch] = React.useReducer(reducer<T>, EMPTY_HISTORY as HistoryState<T>);
+
+  const present = state.index >= 0 ? state.entries[state.index].snapshot : null;
+
+  const reset = React.useCallback((snapshot: T | null, label = "Opened file") => {
+    dispatch({ type: "reset", snapshot, label });
+  }, []);
+
+  const restore = React.useCallback((restored: HistoryState<T>) => {
+    dispatch({ type: "restore", state: restored });
+  }, []);
+
+  const commit = React.useCallback((snapshot: T, options: CommitOptions) => {
+    dispatch({ type: "commit", snapshot, options, timestamp: Date.now() });
+  }, []);
+
+  const jumpTo = React.useCallback((index: number) => dispatch({ type: "jump", index }), []);
+  const undo = React.useCallback(() => jumpTo(state.index - 1), [jumpTo, state.index]);
+  const redo = React.useCallback(() => jumpTo(state.index + 1), [jumpTo, state.index]);
+
+  return {
+    state,
+    present,
+    entries: state.entries,
+    index: state.index,
+    canUndo: state.index > 0,
+    canRedo: state.index < state.entries.length - 1,
+    reset,
+    restore,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+  };
+}
@@ -0,0 +1,36 @@
+import * as React from "react";
+
+// Returns the id of the first element (in the given order) that is inside the viewport band
+export function useScrollSpy(ids: string[], rootMargin = "-80px 0px -55% 0px") {
+  const [activeId, setActiveId] = React.useState<string | null>(null);
+  const idsKey = ids.join("\n");
+
+  React.useEffect(() => {
+    const order = idsKey ? idsKey.split("\n") : [];
+    const visible = new Set<string>();
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          if (entry.isIntersecting) {
+            visible.add(entry.target.id);
+          } else {
+            visible.delete(entry.target.id);
+          }
+        });
+        const first = order.find((id) => visible.has(id));
+        if (first) setActiveId(first);
+      },
+      { rootMargin },
+    );
+
+    order.forEach((id) => {
+      const element = document.getElementById(id);
+      if (element) observer.observe(element);
+    });
+
+    return () => observer.disconnect();
+  }, [idsKey, rootMargin]);
+
+  return activeId;
+}
@@ -0,0 +1,37 @@
+import * as React from "react";
+
+const OPEN_MODAL = '[role="dialog"][data-state="open"], [role="alertdialog"][data-state="open"]';
+const EDITABLE = 'input, textarea, select, [contenteditable=""], [contenteditable="true"]';
+
+// The shortcuts belong to the config: dialogs and sheets on top of it, and fields outside `scope`,
+// keep the browser's own undo for their text
+const belongsElsewhere = (target: EventTarget | null, scope: HTMLElement | null) => {
+  if (document.querySelector(OPEN_MODAL)) return true;
+  return target instanceof Element && target.closest(EDITABLE) !== null && !scope?.contains(target);
+};
+
+// Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z and Ctrl/Cmd+Y redo. They work inside the editor's own
+// inputs too, since those are controlled and their text comes from the history.
+export function useUndoShortcuts(
+  scope: React.RefObject<HTMLElement>,
+  { enabled, undo, redo }: { enabled: boolean; undo: () => void; redo: () => void },
+) {
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const key = e.key.toLowerCase();
+      const isUndo = key === "z" && !e.shiftKey;
+      const isRedo = (key === "z" && e.shiftKey) || key === "y";
+      if (!(isUndo || isRedo) || belongsElsewhere(e.target, scope.current)) return;
+
+      e.preventDefault();
+      if (isUndo) undo();
+      else redo();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [scope, enabled, undo, redo]);
+}
@@ -0,0 +1,74 @@
+// Key-by-key comparison of two configs, grouped by section
+import { cloneValue, valuesEqual } from './jsonValue';
+import { withUnsectionedKeys } from './jsonParser';
+
+type JsonObject = Record<string, unknown>;
+
+export type CompareStatus = 'same' | 'changed' | 'leftOnly' | 'rightOnly';
+
+export interface CompareSide {
+  data: JsonObject;
+  sections: Map<string, string[]>;
+}
+
+export interface CompareRow {
+  key: string;
+  // `undefined` means the key is absent on that side
+  left?: unknown;
+  right?: unknown;
+  status: CompareStatus;
+}
+
+export interface CompareSection {
+  name: string;
+  rows: CompareRow[];
+  differences: number;
+}
+
+export type CopyDirection = 'toLeft' | 'toRight';
+
+const hasKey = (object: JsonObject, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+const statusOf = (left: JsonObject, right: JsonObject, key: string): CompareStatus => {
+  if (!hasKey(right, key)) return 'leftOnly';
+  if (!hasKey(left, key)) return 'rightOnly';
+  return valuesEqual(left[key], right[key]) ? 'same' : 'changed';
+};
+
+// Keys are aligned by name; each key is grouped under the left file's section, or the right file's when only it has the key
+export function compareConfigs(left: CompareSide, right: CompareSide): CompareSection[] {
+  const placed = new Set<string>();
+  const grouped = new Map<string, string[]>();
+
+  for (const side of [left, right]) {
+    withUnsectionedKeys(side.sections, side.data).forEach((keys, section) => {
+      const fresh = keys.filter(key => !placed.has(key) && (hasKey(left.data, key) || hasKey(right.data, key)));
+      if (fresh.length === 0) return;
+      fresh.forEach(key => placed.add(key));
+      grouped.set(section, [...(grouped.get(section) ?? []), ...fresh]);
+    });
+  }
+
+  return [...grouped].map(([name, keys]) => {
+    const rows = keys.map(key => ({
+      key,
+      left: hasKey(left.data, key) ? left.data[key] : undefined,
+      right: hasKey(right.data, key) ? right.data[key] : undefined,
+      status: statusOf(left.data, right.data, key),
+    }));
+    return { name, rows, differences: rows.filter(row => row.status !== 'same').length };
+  });
+}
+
+// Copy the given keys from one side onto the other; a key missing on the source side is removed from the target
+export function copyKeys(source: JsonObject, target: JsonObject, keys: string[]): JsonObject {
+  const result = { ...target };
+  for (const key of keys) {
+    if (hasKey(source, key)) {
+      result[key] = cloneValue(source[key]);
+    } else {
+      delete result[key];
+    }
+  }
+  return result;
+}
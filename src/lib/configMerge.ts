@@ -0,0 +1,116 @@
+// Three-way merge of a customised config onto a new default release
+import { cloneValue, isPlainObject, valuesEqual } from './jsonValue';
+
+type JsonObject = Record<string, unknown>;
+
+// A value of `undefined` means the key is absent on that side
+export interface MergeConflict {
+  path: string[];
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+}
+
+export interface MergeResult {
+  // Merged config; conflicting paths hold the new default's value until resolved
+  data: JsonObject;
+  conflicts: MergeConflict[];
+  // Paths where the user's change was carried onto the new default
+  carried: string[][];
+  // Top-level keys the new default introduces or drops
+  added: string[];
+  removed: string[];
+}
+
+export type ConflictChoice = 'ours' | 'theirs';
+
+export const formatMergePath = (path: string[]) => path.join('.');
+
+// Keys of the new default in its order, then keys only the user's file has
+const unionKeys = (ours: JsonObject, theirs: JsonObject, base: JsonObject) => {
+  const keys = Object.keys(theirs);
+  for (const key of [...Object.keys(ours), ...Object.keys(base)]) {
+    if (!(key in theirs) && !keys.includes(key)) keys.push(key);
+  }
+  return keys;
+};
+
+function mergeObjects(
+  base: JsonObject,
+  ours: JsonObject,
+  theirs: JsonObject,
+  path: string[],
+  result: Pick<MergeResult, 'conflicts' | 'carried'>,
+): JsonObject {
+  const merged: JsonObject = {};
+  for (const key of unionKeys(ours, theirs, base)) {
+    const value = mergeValue(base[key], ours[key], theirs[key], [...path, key], result);
+    if (value !== undefined) merged[key] = value;
+  }
+  return merged;
+}
+
+function mergeValue(
+  base: unknown,
+  ours: unknown,
+  theirs: unknown,
+  path: string[],
+  result: Pick<MergeResult, 'conflicts' | 'carried'>,
+): unknown {
+  // The user left it alone, so the new default wins (including additions and removals)
+  if (valuesEqual(ours, base)) return cloneValue(theirs);
+
+  // The default didn't change here, so the user's change carries over
+  if (valuesEqual(theirs, base)) {
+    result.carried.push(path);
+    return cloneValue(ours);
+  }
+
+  // Both sides made the same change
+  if (valuesEqual(ours, theirs)) return cloneValue(ours);
+
+  if (isPlainObject(base) && isPlainObject(ours) && isPlainObject(theirs)) {
+    return mergeObjects(base, ours, theirs, path, result);
+  }
+
+  result.conflicts.push({ path, base, ours, theirs });
+  return cloneValue(theirs);
+}
+
+export function mergeConfigs(base: JsonObject, ours: JsonObject, theirs: JsonObject): MergeResult {
+  const result = { conflicts: [] as MergeConflict[], carried: [] as string[][] };
+  const data = mergeObjects(base, ours, theirs, [], result);
+
+  return {
+    data,
+    ...result,
+    added: Object.keys(theirs).filter(key => !(key in base)),
+    removed: Object.keys(base).filter(key => !(key in theirs)),
+  };
+}
+
+// Apply one choice per conflict (same order as `result.conflicts`) to the merged data
+export function resolveConflicts(result: MergeResult, choices: ConflictChoice[]): JsonObject {
+  const data = cloneValue(result.data);
+
+  result.conflicts.forEach((conflict, index) => {
+    if (choices[index] !== 'ours') return;
+
+    const parentPath = conflict.path.slice(0, -1);
+    const key = conflict.path[conflict.path.length - 1];
+    let parent: JsonObject = data;
+    for (const segment of parentPath) {
+      const next = parent[segment];
+      if (!isPlainObject(next)) return;
+      parent = next;
+    }
+
+    if (conflict.ours === undefined) {
+      delete parent[key];
+    } else {
+      parent[key] = cloneValue(conflict.ours);
+    }
+  });
+
+  return data;
+}
@@ -0,0 +1,56 @@
+// Small promise wrapper around the app's IndexedDB database
+
+const DB_NAME = 'bb-config-editor';
+const DB_VERSION = 2;
+
+// Object stores by name, all keyed on `id`; bump DB_VERSION when adding one
+const STORES = ['sessions', 'profiles'];
+
+let connection: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!connection) {
+    connection = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const store of STORES) {
+          if (!request.result.objectStoreNames.contains(store)) {
+            request.result.createObjectStore(store, { keyPath: 'id' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        connection = null;
+        reject(request.error);
+      };
+    });
+  }
+  return connection;
+}
+
+const settle = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+async function withStore<T>(store: string, mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(store, mode);
+  // Resolve only once the transaction is committed, so a crash right after a save can't lose it
+  const committed = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+  const [result] = await Promise.all([settle(run(transaction.objectStore(store))), committed]);
+  return result;
+}
+
+export const getAll = <T>(store: string) => withStore<T[]>(store, 'readonly', s => s.getAll());
+export const getRecord = <T>(store: string, id: string) => withStore<T | undefined>(store, 'readonly', s => s.get(id));
+export const putRecord = <T>(store: string, record: T) => withStore(store, 'readwrite', s => s.put(record)).then(() => undefined);
+export const deleteRecord = (store: string, id: string) => withStore(store, 'readwrite', s => s.delete(id)).then(() => undefined);
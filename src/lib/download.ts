@@ -0,0 +1,13 @@
+// Save data as a file through a temporary object URL
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadText(text: string, fileName: string, type = 'application/json') {
+  downloadBlob(new Blob([text], { type }), fileName);
+}
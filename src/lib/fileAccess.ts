@@ -0,0 +1,102 @@
+// Open and save files in place through the File System Access API, where the browser has it
+
+interface FilePickerAcceptType {
+  description: string;
+  accept: Record<string, string[]>;
+}
+
+interface FilePickerOptions {
+  types?: FilePickerAcceptType[];
+  suggestedName?: string;
+  excludeAcceptAllOption?: boolean;
+}
+
+type PermissionMode = { mode: 'read' | 'readwrite' };
+
+// Parts of the API that TypeScript's DOM types don't include yet
+declare global {
+  interface Window {
+    showOpenFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle[]>;
+    showSaveFilePicker?: (options?: FilePickerOptions) => Promise<FileSystemFileHandle>;
+  }
+
+  interface FileSystemHandle {
+    queryPermission?: (descriptor: PermissionMode) => Promise<PermissionState>;
+    requestPermission?: (descriptor: PermissionMode) => Promise<PermissionState>;
+  }
+}
+
+// A file opened from disk, plus what it looked like when we last read or wrote it
+export interface OpenedFile {
+  handle: FileSystemFileHandle;
+  lastModified: number;
+}
+
+const JSON_TYPES: FilePickerAcceptType[] = [{ description: 'JSON files', accept: { 'application/json': ['.json'] } }];
+const OPEN_TYPES: FilePickerAcceptType[] = [
+  { description: 'Configs and resource packs', accept: { 'application/json': ['.json'], 'application/zip': ['.mcpack', '.zip'] } },
+];
+
+export const supportsFileSystemAccess = () =>
+  typeof window !== 'undefined' && typeof window.showOpenFilePicker === 'function' && typeof window.showSaveFilePicker === 'function';
+
+// The user closing the picker isn't an error
+const isAbort = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+export async function openFileWithPicker(): Promise<{ file: File; opened: OpenedFile } | null> {
+  try {
+    const [handle] = await window.showOpenFilePicker!({ types: OPEN_TYPES });
+    const file = await handle.getFile();
+    return { file, opened: { handle, lastModified: file.lastModified } };
+  } catch (error) {
+    if (isAbort(error)) return null;
+    throw error;
+  }
+}
+
+// Dropped files and folders keep their handle in browsers that support it. This has to be
+// called while the drop event is still being handled; the handle itself arrives later.
+export function requestDropHandle(item: DataTransferItem | undefined): Promise<FileSystemHandle | null> {
+  const getHandle = (item as { getAsFileSystemHandle?: () => Promise<FileSystemHandle | null> } | undefined)?.getAsFileSystemHandle;
+  if (!item || !getHandle || !supportsFileSystemAccess()) return Promise.resolve(null);
+  return getHandle.call(item).catch(() => null);
+}
+
+export async function toOpenedFile(handle: FileSystemFileHandle): Promise<OpenedFile> {
+  const file = await handle.getFile();
+  return { handle, lastModified: file.lastModified };
+}
+
+export async function hasChangedOnDisk(opened: OpenedFile): Promise<boolean> {
+  const file = await opened.handle.getFile();
+  return file.lastModified !== opened.lastModified;
+}
+
+async function ensureWritePermission(handle: FileSystemFileHandle) {
+  const descriptor: PermissionMode = { mode: 'readwrite' };
+  if ((await handle.queryPermission?.(descriptor)) === 'granted') return;
+  if ((await handle.requestPermission?.(descriptor)) === 'denied') {
+    throw new Error(`Permission to write ${handle.name} was denied`);
+  }
+}
+
+// Writes `text` over the file and returns the updated record
+export async function writeOpenedFile(opened: OpenedFile, text: string): Promise<OpenedFile> {
+  await ensureWritePermission(opened.handle);
+  const writable = await opened.handle.createWritable();
+  await writable.write(text);
+  await writable.close();
+  const file = await opened.handle.getFile();
+  return { handle: opened.handle, lastModified: file.lastModified };
+}
+
+export async function saveFileAs(text: string, suggestedName: string): Promise<OpenedFile | null> {
+  let handle: FileSystemFileHandle;
+  try {
+    handle = await window.showSaveFilePicker!({ types: JSON_TYPES, suggestedName });
+  } catch (error) {
+    if (isAbort(error)) return null;
+    throw error;
+  }
+  return writeOpenedFile({ handle, lastModified: 0 }, text);
+}
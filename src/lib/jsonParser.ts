@@ -1,91 +1,207 @@
-// Strips comments from JSONC (JSON with Comments) format
-export function parseJsonWithComments(text: string): { data: unknown; sections: Map<string, string[]> } {
-  const lines = text.split('\n');
+import { parseJsonc, nodeToValue, JsoncParseError } from './jsonc';
+import { formatJsonString, updateJsoncDocument, type JsoncDocument } from './jsoncDocument';
+import { valuesEqual } from './jsonValue';
+
+export interface ParsedConfig {
+  data: unknown;
+  sections: Map<string, string[]>;
+  sectionTree: SectionCategory[];
+  document: JsoncDocument;
+}
+
+// "MODS - heavy" becomes category "MODS" with subcategory "heavy"
+export interface SectionCategory {
+  name: string;
+  subcategories: SectionSubcategory[];
+  keyCount: number;
+}
+
+export interface SectionSubcategory {
+  // null for a section header without a subcategory part, e.g. "// MODS"
+  name: string | null;
+  // Full section name as used in the sections map
+  section: string;
+  keys: string[];
+}
+
+export interface ParseOptions {
+  // Id of the section marker used to recognise header comments
+  sectionMarker?: string;
+}
+
+// A comment that stands alone on its line and may be a section header
+export interface SectionComment {
+  text: string;
+  kind: 'line' | 'block';
+}
+
+export interface SectionMarker {
+  id: string;
+  label: string;
+  // Section name for a header comment, or null when the comment is not a header
+  match: (comment: SectionComment) => string | null;
+}
+
+const matchLine = (pattern: RegExp) => (comment: SectionComment) => {
+  if (comment.kind !== 'line') return null;
+  return comment.text.match(pattern)?.[1].trim() ?? null;
+};
+
+export const SECTION_MARKERS: SectionMarker[] = [
+  {
+    id: 'uppercase',
+    label: 'Uppercase (// MODS - heavy)',
+    match: matchLine(/^\/\/\s*([A-Z]+(?:\s*-\s*[a-zA-Z\s]+)?)\s*$/),
+  },
+  {
+    id: 'banner',
+    label: 'Banner (// ==== Crosshair ====)',
+    match: matchLine(/^\/\/\s*[=#*~-]{2,}\s*(.*?[^\s=#*~-].*?)\s*[=#*~-]{2,}\s*$/),
+  },
+  {
+    id: 'block',
+    label: 'Block comment (/* TOOLTIPS */)',
+    match: (comment) => {
+      if (comment.kind !== 'block' || comment.text.includes('\n')) return null;
+      return comment.text.match(/^\/\*+\s*([^*].*?)\s*\*+\/$/)?.[1] ?? null;
+    },
+  },
+  {
+    id: 'numbered',
+    label: 'Numbered (// 1. Hud)',
+    match: matchLine(/^\/\/\s*(\d+(?:\.\d+)*[.)]?\s+\S.*?)\s*$/),
+  },
+  {
+    id: 'title',
+    label: 'Short title (// Hud settings)',
+    match: matchLine(/^\/\/\s*([A-Za-z][\w &/'-]{0,39})\s*$/),
+  },
+  {
+    id: 'none',
+    label: 'No sections',
+    match: () => null,
+  },
+];
+
+export const DEFAULT_SECTION_MARKER = 'uppercase';
+
+// Group for keys that appear before any section header, or that no header covers
+export const UNSECTIONED = 'Unsectioned';
+
+export function getSectionMarker(id: string | undefined): SectionMarker {
+  return SECTION_MARKERS.find(marker => marker.id === id) ?? SECTION_MARKERS[0];
+}
+
+function isStandalone(text: string, start: number, end: number): boolean {
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  let lineEnd = text.indexOf('\n', end);
+  if (lineEnd === -1) lineEnd = text.length;
+  return /^\s*$/.test(text.slice(lineStart, start)) && /^\s*$/.test(text.slice(end, lineEnd));
+}
+
+// Group the document's top-level keys by the header comments that precede them
+export function extractSections(document: JsoncDocument, markerId: string = DEFAULT_SECTION_MARKER): Map<string, string[]> {
+  const { text, root, tokens } = document;
   const sections = new Map<string, string[]>();
-  let currentSection = 'General';
-  const sectionKeys: string[] = [];
-  
-  // Extract sections and their keys from comments
-  for (const line of lines) {
-    const trimmed = line.trim();
-    
-    // Check for section comment like "// MODS - heavy" or "// EDITOR - crosshair"
-    const sectionMatch = trimmed.match(/^\/\/\s*([A-Z]+(?:\s*-\s*[a-zA-Z\s]+)?)\s*$/);
-    if (sectionMatch) {
-      if (sectionKeys.length > 0) {
-        sections.set(currentSection, [...sectionKeys]);
-        sectionKeys.length = 0;
+  if (root.type !== 'object') return sections;
+
+  const marker = getSectionMarker(markerId);
+  const comments = tokens.filter(token => token.type === 'lineComment' || token.type === 'blockComment');
+  let commentIndex = 0;
+  let currentSection = UNSECTIONED;
+
+  for (const member of root.members) {
+    while (commentIndex < comments.length && comments[commentIndex].end <= member.keyToken.start) {
+      const comment = comments[commentIndex];
+      if (isStandalone(text, comment.start, comment.end)) {
+        const name = marker.match({ text: comment.text.trim(), kind: comment.type === 'lineComment' ? 'line' : 'block' });
+        if (name) {
+          currentSection = name;
+        }
       }
-      currentSection = sectionMatch[1].trim();
-      continue;
+      commentIndex++;
     }
-    
-    // Check for key definition
-    const keyMatch = trimmed.match(/^"\$([^"]+)":/);
-    if (keyMatch) {
-      sectionKeys.push('$' + keyMatch[1]);
-    }
-  }
-  
-  // Save last section
-  if (sectionKeys.length > 0) {
-    sections.set(currentSection, [...sectionKeys]);
+
+    const keys = sections.get(currentSection) ?? [];
+    if (!keys.includes(member.key)) keys.push(member.key);
+    sections.set(currentSection, keys);
   }
-  
-  // Remove comments and parse JSON
-  const cleanedLines = lines.map(line => {
-    // Remove single-line comments (// ...) but be careful not to remove URLs or strings
-    let inString = false;
-    let result = '';
-    let i = 0;
-    
-    while (i < line.length) {
-      const char = line[i];
-      const nextChar = line[i + 1];
-      
-      if (char === '"' && (i === 0 || line[i - 1] !== '\\')) {
-        inString = !inString;
-        result += char;
-        i++;
-        continue;
-      }
-      
-      if (!inString && char === '/' && nextChar === '/') {
-        // Found a comment, stop here
-        break;
-      }
-      
-      result += char;
-      i++;
-    }
-    
-    return result;
+
+  return sections;
+}
+
+// Add any key of `data` that no section lists to the unsectioned group, so nothing is dropped
+export function withUnsectionedKeys(sections: Map<string, string[]>, data: Record<string, unknown>): Map<string, string[]> {
+  const listed = new Set([...sections.values()].flat());
+  const missing = Object.keys(data).filter(key => !listed.has(key));
+  if (missing.length === 0) return sections;
+
+  // Unsectioned keys come first, matching where keys before the first header live in the file
+  const result = new Map([[UNSECTIONED, [...(sections.get(UNSECTIONED) ?? []), ...missing]]]);
+  sections.forEach((keys, section) => {
+    if (section !== UNSECTIONED) result.set(section, keys);
   });
-  
-  const cleanedJson = cleanedLines.join('\n');
-  
+  return result;
+}
+
+// Parses JSONC (JSON with Comments) and groups top-level keys by their section comments
+export function parseJsonWithComments(text: string, options: ParseOptions = {}): ParsedConfig {
+  let parsed: ReturnType<typeof parseJsonc>;
   try {
-    const data = JSON.parse(cleanedJson);
-    return { data, sections };
+    parsed = parseJsonc(text);
   } catch (e) {
+    if (e instanceof JsoncParseError) {
+      throw new JsoncParseError(e.diagnostic, 'Invalid JSON format: ' + e.message);
+    }
     throw new Error('Invalid JSON format: ' + (e as Error).message);
   }
+
+  const document: JsoncDocument = { text, root: parsed.root, tokens: parsed.tokens };
+  const sections = extractSections(document, options.sectionMarker);
+
+  return { data: nodeToValue(parsed.root), sections, sectionTree: buildSectionTree(sections), document };
 }
 
-// Serialize data back to JSON, preserving original formatting with comments
-export function serializeWithComments(data: Record<string, unknown>, sections: Map<string, string[]>): string {
+// Group flat section names into a category -> subcategory tree, keeping first-seen order
+export function buildSectionTree(sections: Map<string, string[]>): SectionCategory[] {
+  const categories = new Map<string, SectionCategory>();
+
+  sections.forEach((keys, section) => {
+    const match = section.match(/^(.+?)\s*-\s*(.+)$/);
+    const categoryName = match ? match[1].trim() : section;
+    const category = categories.get(categoryName) ?? { name: categoryName, subcategories: [], keyCount: 0 };
+
+    category.subcategories.push({ name: match ? match[2].trim() : null, section, keys });
+    category.keyCount += keys.length;
+    categories.set(categoryName, category);
+  });
+
+  return [...categories.values()];
+}
+
+// Serialize data back to JSON. With the parsed document, only changed values are rewritten and
+// every comment, blank line and number literal is kept; without it the file is rebuilt from sections.
+export function serializeWithComments(
+  data: Record<string, unknown>,
+  sections: Map<string, string[]>,
+  document?: JsoncDocument
+): string {
+  if (document) {
+    return updateJsoncDocument(document, data);
+  }
+
   const lines: string[] = ['{'];
   
   // Add version first
   if ('$bb_version' in data) {
-    lines.push(`  "$bb_version": "${data.$bb_version}",`);
+    lines.push(`  "$bb_version": ${JSON.stringify(data.$bb_version)},`);
     lines.push('');
   }
   
   const processedKeys = new Set(['$bb_version']);
   
-  sections.forEach((keys, sectionName) => {
-    if (sectionName !== 'General') {
+  withUnsectionedKeys(sections, data).forEach((keys, sectionName) => {
+    if (sectionName !== UNSECTIONED) {
       lines.push(`  // ${sectionName}`);
     }
     
@@ -107,16 +223,16 @@ export function serializeWithComments(data: Record<string, unknown>, sections: M
       
       if (Array.isArray(value)) {
         if (value.length === 0) {
-          lines.push(`${indent}"${key}": []${comma}`);
+          lines.push(`${indent}${formatJsonString(key)}: []${comma}`);
         } else {
-          lines.push(`${indent}"${key}": ${JSON.stringify(value)}${comma}`);
+          lines.push(`${indent}${formatJsonString(key)}: ${JSON.stringify(value)}${comma}`);
         }
       } else if (typeof value === 'object' && value !== null) {
-        lines.push(`${indent}"${key}": ${JSON.stringify(value)}${comma}`);
+        lines.push(`${indent}${formatJsonString(key)}: ${JSON.stringify(value)}${comma}`);
       } else if (typeof value === 'string') {
-        lines.push(`${indent}"${key}": "${value}"${comma}`);
+        lines.push(`${indent}${formatJsonString(key)}: ${formatJsonString(value)}${comma}`);
       } else {
-        lines.push(`${indent}"${key}": ${value}${comma}`);
+        lines.push(`${indent}${formatJsonString(key)}: ${value}${comma}`);
       }
     });
     
@@ -139,6 +255,22 @@ export function serializeWithComments(data: Record<string, unknown>, sections: M
   return lines.join('\n');
 }
 
+// Re-parse serialized output and confirm it loads back to exactly `data`; returns a reason when it doesn't
+export function verifySerializedOutput(text: string, data: Record<string, unknown>): string | null {
+  let reparsed: unknown;
+  try {
+    reparsed = nodeToValue(parseJsonc(text).root);
+  } catch (e) {
+    return 'The exported file would not load: ' + (e as Error).message;
+  }
+
+  if (!valuesEqual(reparsed, data)) {
+    return 'The exported file does not match the edited values (numbers must be finite)';
+  }
+
+  return null;
+}
+
 // Format key name for display
 export function formatKeyName(key: string): string {
   return key
@@ -0,0 +1,216 @@
+// RFC 6902 JSON Patch: create, validate and apply change sets
+import { cloneValue, isPlainObject, valuesEqual } from './jsonValue';
+
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+export class JsonPatchError extends Error {
+  constructor(message: string, public readonly index?: number) {
+    super(index === undefined ? message : `Operation ${index + 1}: ${message}`);
+    this.name = 'JsonPatchError';
+  }
+}
+
+export interface PatchOperationResult {
+  operation: JsonPatchOperation;
+  error?: string;
+  // Not tried because an earlier operation stopped the patch
+  skipped?: boolean;
+}
+
+export interface PatchPreview {
+  results: PatchOperationResult[];
+  // The patched document, or the input unchanged when the patch was aborted
+  data: unknown;
+  applied: number;
+  failed: number;
+  skipped: number;
+  // An operation failed and, as RFC 6902 requires, none of the patch was applied
+  aborted: boolean;
+}
+
+export interface PreviewOptions {
+  // Skip failing operations instead of aborting; a failed `test` still stops everything after it
+  partial?: boolean;
+}
+
+// RFC 6901: "~" is written as "~0" and "/" as "~1"
+export const escapePointerSegment = (segment: string) => segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+export const toPointer = (path: string[]) => path.map(segment => '/' + escapePointerSegment(segment)).join('');
+
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new JsonPatchError(`Invalid JSON pointer "${pointer}"`);
+  return pointer.slice(1).split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+// Minimal patch that turns `from` into `to`; arrays that change length are replaced whole
+export function createPatch(from: unknown, to: unknown, path: string[] = []): JsonPatchOperation[] {
+  if (valuesEqual(from, to)) return [];
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const operations: JsonPatchOperation[] = [];
+    for (const key of Object.keys(from)) {
+      if (!Object.prototype.hasOwnProperty.call(to, key)) operations.push({ op: 'remove', path: toPointer([...path, key]) });
+    }
+    for (const key of Object.keys(to)) {
+      if (Object.prototype.hasOwnProperty.call(from, key)) {
+        operations.push(...createPatch(from[key], to[key], [...path, key]));
+      } else {
+        operations.push({ op: 'add', path: toPointer([...path, key]), value: cloneValue(to[key]) });
+      }
+    }
+    return operations;
+  }
+
+  if (Array.isArray(from) && Array.isArray(to) && from.length === to.length) {
+    return from.flatMap((item, index) => createPatch(item, to[index], [...path, String(index)]));
+  }
+
+  return [{ op: 'replace', path: toPointer(path), value: cloneValue(to) }];
+}
+
+const OPERATIONS = new Set(['add', 'remove', 'replace', 'move', 'copy', 'test']);
+
+// Validates the shape of a patch document
+export function parsePatch(text: string): JsonPatchOperation[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new JsonPatchError('Invalid JSON: ' + (e as Error).message);
+  }
+  if (!Array.isArray(parsed)) throw new JsonPatchError('A JSON Patch must be an array of operations');
+
+  return parsed.map((operation, index) => {
+    if (!isPlainObject(operation) || typeof operation.op !== 'string' || !OPERATIONS.has(operation.op)) {
+      throw new JsonPatchError('"op" must be one of add, remove, replace, move, copy or test', index);
+    }
+    if (typeof operation.path !== 'string') throw new JsonPatchError('"path" must be a string', index);
+    if ((operation.op === 'move' || operation.op === 'copy') && typeof operation.from !== 'string') {
+      throw new JsonPatchError('"from" must be a string', index);
+    }
+    if ((operation.op === 'add' || operation.op === 'replace' || operation.op === 'test') && !('value' in operation)) {
+      throw new JsonPatchError('"value" is required', index);
+    }
+    return operation as JsonPatchOperation;
+  });
+}
+
+const getChild = (container: unknown, segment: string, pointer: string): unknown => {
+  if (Array.isArray(container)) {
+    const index = Number(segment);
+    if (!/^\d+$/.test(segment) || index >= container.length) throw new JsonPatchError(`Path "${pointer}" does not exist`);
+    return container[index];
+  }
+  if (isPlainObject(container) && Object.prototype.hasOwnProperty.call(container, segment)) return container[segment];
+  throw new JsonPatchError(`Path "${pointer}" does not exist`);
+};
+
+const getValue = (document: unknown, pointer: string) =>
+  parsePointer(pointer).reduce((node, segment) => getChild(node, segment, pointer), document);
+
+// Operates on the parent of the target; `document` is already a private copy
+function mutate(
+  document: unknown,
+  pointer: string,
+  change: (parent: Record<string, unknown> | unknown[], key: string) => void,
+): unknown {
+  const path = parsePointer(pointer);
+  if (path.length === 0) throw new JsonPatchError('The document root cannot be changed');
+  const parent = path.slice(0, -1).reduce((node, segment) => getChild(node, segment, pointer), document);
+  if (!Array.isArray(parent) && !isPlainObject(parent)) throw new JsonPatchError(`Path "${pointer}" does not exist`);
+  change(parent, path[path.length - 1]);
+  return document;
+}
+
+const arrayIndex = (array: unknown[], key: string, pointer: string, allowEnd: boolean) => {
+  if (allowEnd && key === '-') return array.length;
+  const index = Number(key);
+  if (!/^\d+$/.test(key) || index > array.length || (!allowEnd && index === array.length)) {
+    throw new JsonPatchError(`Path "${pointer}" does not exist`);
+  }
+  return index;
+};
+
+const addValue = (document: unknown, pointer: string, value: unknown) =>
+  mutate(document, pointer, (parent, key) => {
+    if (Array.isArray(parent)) {
+      parent.splice(arrayIndex(parent, key, pointer, true), 0, value);
+    } else {
+      parent[key] = value;
+    }
+  });
+
+const removeValue = (document: unknown, pointer: string) =>
+  mutate(document, pointer, (parent, key) => {
+    if (Array.isArray(parent)) {
+      parent.splice(arrayIndex(parent, key, pointer, false), 1);
+    } else {
+      if (!Object.prototype.hasOwnProperty.call(parent, key)) throw new JsonPatchError(`Path "${pointer}" does not exist`);
+      delete parent[key];
+    }
+  });
+
+// Applies one operation to a copy of `document`; throws JsonPatchError when it can't apply
+export function applyOperation(document: unknown, operation: JsonPatchOperation): unknown {
+  const copy = cloneValue(document);
+
+  switch (operation.op) {
+    case 'add':
+      return addValue(copy, operation.path, cloneValue(operation.value));
+    case 'remove':
+      return removeValue(copy, operation.path);
+    case 'replace':
+      getValue(copy, operation.path);
+      return addValue(removeValue(copy, operation.path), operation.path, cloneValue(operation.value));
+    case 'move': {
+      if (operation.path.startsWith(operation.from + '/')) {
+        throw new JsonPatchError(`Cannot move "${operation.from}" into itself`);
+      }
+      const value = getValue(copy, operation.from);
+      return addValue(removeValue(copy, operation.from), operation.path, value);
+    }
+    case 'copy':
+      return addValue(copy, operation.path, cloneValue(getValue(copy, operation.from)));
+    case 'test':
+      if (!valuesEqual(getValue(copy, operation.path), operation.value)) {
+        throw new JsonPatchError(`Value at "${operation.path}" does not match`);
+      }
+      return copy;
+  }
+}
+
+// Applies the operations in order and stops at the first failure, recording why it failed
+export function previewPatch(document: unknown, operations: JsonPatchOperation[], { partial = false }: PreviewOptions = {}): PatchPreview {
+  let data = document;
+  let stopped = false;
+  const results = operations.map((operation): PatchOperationResult => {
+    if (stopped) return { operation, skipped: true };
+    try {
+      data = applyOperation(data, operation);
+      return { operation };
+    } catch (e) {
+      if (!partial || operation.op === 'test') stopped = true;
+      return { operation, error: (e as Error).message };
+    }
+  });
+
+  const failed = results.filter(result => result.error !== undefined).length;
+  const skipped = results.filter(result => result.skipped).length;
+  const aborted = failed > 0 && !partial;
+  return {
+    results,
+    data: aborted ? document : data,
+    applied: aborted ? 0 : results.length - failed - skipped,
+    failed,
+    skipped,
+    aborted,
+  };
+}
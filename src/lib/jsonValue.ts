@@ -0,0 +1,34 @@
+// Helpers for working with plain JSON values
+
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Structural equality for JSON values; object key order is ignored
+export function valuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, index) => valuesEqual(item, b[index]));
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    if (keys.length !== Object.keys(b).length) return false;
+    return keys.every(key => key in b && valuesEqual(a[key], b[key]));
+  }
+
+  return false;
+}
+
+export function cloneValue<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// Short one-line rendering of a JSON value for lists and summaries
+export function previewValue(value: unknown, maxLength = 40): string {
+  if (value === undefined) return '—';
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > maxLength ? text.slice(0, maxLength - 1) + '…' : text;
+}
@@ -0,0 +1,395 @@
+// Character-level lexer and parser for JSONC (JSON with comments and trailing commas)
+
+export type JsoncTokenType =
+  | 'openBrace'
+  | 'closeBrace'
+  | 'openBracket'
+  | 'closeBracket'
+  | 'colon'
+  | 'comma'
+  | 'string'
+  | 'number'
+  | 'true'
+  | 'false'
+  | 'null'
+  | 'lineComment'
+  | 'blockComment'
+  | 'whitespace';
+
+export interface JsoncToken {
+  type: JsoncTokenType;
+  start: number;
+  end: number;
+  text: string;
+  // Decoded value for string, number and literal tokens
+  value?: string | number | boolean | null;
+}
+
+export type JsoncNode = JsoncObjectNode | JsoncArrayNode | JsoncValueNode;
+
+export interface JsoncObjectNode {
+  type: 'object';
+  start: number;
+  end: number;
+  members: JsoncMember[];
+}
+
+export interface JsoncMember {
+  key: string;
+  keyToken: JsoncToken;
+  value: JsoncNode;
+  comma?: JsoncToken;
+}
+
+export interface JsoncArrayNode {
+  type: 'array';
+  start: number;
+  end: number;
+  elements: JsoncElement[];
+}
+
+export interface JsoncElement {
+  value: JsoncNode;
+  comma?: JsoncToken;
+}
+
+export interface JsoncValueNode {
+  type: 'string' | 'number' | 'boolean' | 'null';
+  start: number;
+  end: number;
+  token: JsoncToken;
+  value: string | number | boolean | null;
+}
+
+export interface JsoncParseResult {
+  root: JsoncNode;
+  tokens: JsoncToken[];
+}
+
+const PUNCTUATION: Record<string, JsoncTokenType> = {
+  '{': 'openBrace',
+  '}': 'closeBrace',
+  '[': 'openBracket',
+  ']': 'closeBracket',
+  ':': 'colon',
+  ',': 'comma',
+};
+
+const SIMPLE_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const NUMBER_PATTERN = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const WHITESPACE_PATTERN = /[ \t\r\n\uFEFF]+/y;
+
+export interface JsoncDiagnostic {
+  message: string;
+  offset: number;
+  // 1-based position in the original source
+  line: number;
+  column: number;
+  // Source text of the offending token, if any
+  token?: string;
+  // What the parser would have accepted at this point
+  expected?: string;
+}
+
+export class JsoncParseError extends Error {
+  constructor(public readonly diagnostic: JsoncDiagnostic, message?: string) {
+    super(message ?? `${diagnostic.message} at line ${diagnostic.line}, column ${diagnostic.column}`);
+    this.name = 'JsoncParseError';
+  }
+}
+
+export function offsetToPosition(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset);
+  const line = before.split('\n').length;
+  return { line, column: offset - (before.lastIndexOf('\n') + 1) + 1 };
+}
+
+function fail(
+  text: string,
+  message: string,
+  offset: number,
+  details: Pick<JsoncDiagnostic, 'token' | 'expected'> = {}
+): never {
+  throw new JsoncParseError({ message, offset, ...offsetToPosition(text, offset), ...details });
+}
+
+function readString(text: string, start: number): JsoncToken {
+  let value = '';
+  let i = start + 1;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '"') {
+      return { type: 'string', start, end: i + 1, text: text.slice(start, i + 1), value };
+    }
+
+    if (char === '\\') {
+      const escape = text[i + 1];
+      if (escape === 'u') {
+        const hex = text.slice(i + 2, i + 6);
+        if (!/^[0-9a-fA-F]{4}$/.test(hex)) {
+          fail(text, 'Invalid unicode escape', i, { token: text.slice(i, i + 6), expected: 'four hex digits' });
+        }
+        value += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+      if (escape === undefined || !(escape in SIMPLE_ESCAPES)) {
+        fail(text, 'Invalid escape sequence', i, {
+          token: text.slice(i, i + 2),
+          expected: 'one of \\" \\\\ \\/ \\b \\f \\n \\r \\t \\u',
+        });
+      }
+      value += SIMPLE_ESCAPES[escape];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n' || char === '\r') {
+      fail(text, 'Unterminated string', start, { token: text.slice(start, i), expected: 'closing quote' });
+    }
+    if (char < ' ') fail(text, 'Control character in string', i, { expected: 'an escape sequence' });
+
+    value += char;
+    i++;
+  }
+
+  return fail(text, 'Unterminated string', start, { token: text.slice(start), expected: 'closing quote' });
+}
+
+// Split text into tokens, keeping whitespace and comments so the source can be rebuilt exactly
+export function tokenizeJsonc(text: string): JsoncToken[] {
+  const tokens: JsoncToken[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    const nextChar = text[i + 1];
+
+    WHITESPACE_PATTERN.lastIndex = i;
+    const whitespace = WHITESPACE_PATTERN.exec(text);
+    if (whitespace) {
+      tokens.push({ type: 'whitespace', start: i, end: i + whitespace[0].length, text: whitespace[0] });
+      i += whitespace[0].length;
+      continue;
+    }
+
+    if (char in PUNCTUATION) {
+      tokens.push({ type: PUNCTUATION[char], start: i, end: i + 1, text: char });
+      i++;
+      continue;
+    }
+
+    if (char === '/' && nextChar === '/') {
+      let end = text.indexOf('\n', i);
+      if (end === -1) end = text.length;
+      // Leave a Windows line ending out of the comment body
+      if (text[end - 1] === '\r') end--;
+      tokens.push({ type: 'lineComment', start: i, end, text: text.slice(i, end) });
+      i = end;
+      continue;
+    }
+
+    if (char === '/' && nextChar === '*') {
+      const close = text.indexOf('*/', i + 2);
+      if (close === -1) fail(text, 'Unterminated block comment', i, { token: '/*', expected: '*/' });
+      tokens.push({ type: 'blockComment', start: i, end: close + 2, text: text.slice(i, close + 2) });
+      i = close + 2;
+      continue;
+    }
+
+    if (char === '"') {
+      const token = readString(text, i);
+      tokens.push(token);
+      i = token.end;
+      continue;
+    }
+
+    if (char === '-' || (char >= '0' && char <= '9')) {
+      NUMBER_PATTERN.lastIndex = i;
+      const match = NUMBER_PATTERN.exec(text);
+      if (!match) fail(text, 'Invalid number', i, { token: char, expected: 'a digit' });
+      const end = i + match[0].length;
+      tokens.push({ type: 'number', start: i, end, text: match[0], value: Number(match[0]) });
+      i = end;
+      continue;
+    }
+
+    const word = /^[A-Za-z_]+/.exec(text.slice(i, i + 32))?.[0];
+    if (word === 'true' || word === 'false' || word === 'null') {
+      const value = word === 'null' ? null : word === 'true';
+      tokens.push({ type: word, start: i, end: i + word.length, text: word, value });
+      i += word.length;
+      continue;
+    }
+
+    fail(text, `Unexpected character '${char}'`, i, { token: char, expected: 'a JSON value, punctuation or comment' });
+  }
+
+  return tokens;
+}
+
+export function isTrivia(token: JsoncToken): boolean {
+  return token.type === 'whitespace' || token.type === 'lineComment' || token.type === 'blockComment';
+}
+
+class JsoncParser {
+  private readonly significant: JsoncToken[];
+  private position = 0;
+
+  constructor(private readonly text: string, tokens: JsoncToken[]) {
+    this.significant = tokens.filter(token => !isTrivia(token));
+  }
+
+  parseDocument(): JsoncNode {
+    const root = this.parseValue();
+    const extra = this.peek();
+    if (extra) {
+      fail(this.text, `Unexpected '${extra.text}' after end of document`, extra.start, {
+        token: extra.text,
+        expected: 'end of input',
+      });
+    }
+    return root;
+  }
+
+  private peek(): JsoncToken | undefined {
+    return this.significant[this.position];
+  }
+
+  private next(expected: string): JsoncToken {
+    const token = this.significant[this.position];
+    if (!token) fail(this.text, 'Unexpected end of input', this.text.length, { expected });
+    this.position++;
+    return token;
+  }
+
+  private expect(type: JsoncTokenType, description: string): JsoncToken {
+    const token = this.next(description);
+    if (token.type !== type) {
+      fail(this.text, `Expected ${description} but found '${token.text}'`, token.start, {
+        token: token.text,
+        expected: description,
+      });
+    }
+    return token;
+  }
+
+  private parseValue(): JsoncNode {
+    const token = this.next('a value');
+
+    switch (token.type) {
+      case 'openBrace':
+        return this.parseObject(token);
+      case 'openBracket':
+        return this.parseArray(token);
+      case 'string':
+      case 'number':
+        return { type: token.type, start: token.start, end: token.end, token, value: token.value };
+      case 'true':
+      case 'false':
+        return { type: 'boolean', start: token.start, end: token.end, token, value: token.value };
+      case 'null':
+        return { type: 'null', start: token.start, end: token.end, token, value: null };
+      default:
+        return fail(this.text, `Unexpected '${token.text}'`, token.start, { token: token.text, expected: 'a value' });
+    }
+  }
+
+  private parseObject(open: JsoncToken): JsoncObjectNode {
+    const members: JsoncMember[] = [];
+
+    while (true) {
+      const token = this.peek();
+      if (token?.type === 'closeBrace') {
+        this.position++;
+        return { type: 'object', start: open.start, end: token.end, members };
+      }
+
+      const keyToken = this.expect('string', "property name or '}'");
+      this.expect('colon', "':'");
+      const member: JsoncMember = { key: keyToken.value as string, keyToken, value: this.parseValue() };
+      members.push(member);
+
+      const separator = this.next("',' or '}'");
+      if (separator.type === 'comma') {
+        member.comma = separator;
+      } else if (separator.type === 'closeBrace') {
+        return { type: 'object', start: open.start, end: separator.end, members };
+      } else {
+        fail(this.text, `Expected ',' or '}' but found '${separator.text}'`, separator.start, {
+          token: separator.text,
+          expected: "',' or '}'",
+        });
+      }
+    }
+  }
+
+  private parseArray(open: JsoncToken): JsoncArrayNode {
+    const elements: JsoncElement[] = [];
+
+    while (true) {
+      const token = this.peek();
+      if (token?.type === 'closeBracket') {
+        this.position++;
+        return { type: 'array', start: open.start, end: token.end, elements };
+      }
+
+      const element: JsoncElement = { value: this.parseValue() };
+      elements.push(element);
+
+      const separator = this.next("',' or ']'");
+      if (separator.type === 'comma') {
+        element.comma = separator;
+      } else if (separator.type === 'closeBracket') {
+        return { type: 'array', start: open.start, end: separator.end, elements };
+      } else {
+        fail(this.text, `Expected ',' or ']' but found '${separator.text}'`, separator.start, {
+          token: separator.text,
+          expected: "',' or ']'",
+        });
+      }
+    }
+  }
+}
+
+// Parse JSONC text into a syntax tree that keeps the source offsets of every value
+export function parseJsonc(text: string): JsoncParseResult {
+  const tokens = tokenizeJsonc(text);
+  const root = new JsoncParser(text, tokens).parseDocument();
+  return { root, tokens };
+}
+
+// Convert a syntax tree node into a plain JavaScript value
+export function nodeToValue(node: JsoncNode): unknown {
+  if (node.type === 'object') {
+    const result: Record<string, unknown> = {};
+    for (const member of node.members) {
+      // Defined rather than assigned, so a "__proto__" key stays an ordinary property
+      Object.defineProperty(result, member.key, {
+        value: nodeToValue(member.value),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      });
+    }
+    return result;
+  }
+
+  if (node.type === 'array') {
+    return node.elements.map(element => nodeToValue(element.value));
+  }
+
+  return node.value;
+}
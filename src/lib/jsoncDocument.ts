@@ -0,0 +1,312 @@
+// Lossless editing of JSONC source: values are rewritten in place, everything else is left untouched
+import {
+  nodeToValue,
+  type JsoncArrayNode,
+  type JsoncElement,
+  type JsoncMember,
+  type JsoncNode,
+  type JsoncObjectNode,
+  type JsoncToken,
+} from './jsonc';
+import { isPlainObject, valuesEqual } from './jsonValue';
+
+// A parsed JSONC file: the exact source text plus the syntax tree and tokens built from it
+export interface JsoncDocument {
+  text: string;
+  root: JsoncNode;
+  tokens: JsoncToken[];
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface EditContext {
+  text: string;
+  newline: string;
+  indentUnit: string;
+  // Write non-ASCII characters as \uXXXX escapes
+  asciiOnly: boolean;
+  edits: TextEdit[];
+}
+
+export interface FormatOptions {
+  indentUnit?: string;
+  newline?: string;
+  asciiOnly?: boolean;
+}
+
+function lineStart(text: string, offset: number): number {
+  return text.lastIndexOf('\n', offset - 1) + 1;
+}
+
+function lineIndent(text: string, offset: number): string {
+  return /^[ \t]*/.exec(text.slice(lineStart(text, offset)))![0];
+}
+
+// True when only indentation precedes the offset on its line
+function startsLine(text: string, offset: number): boolean {
+  return /^[ \t]*$/.test(text.slice(lineStart(text, offset), offset));
+}
+
+function hasKey(value: Record<string, unknown>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(value, key);
+}
+
+function isContainer(value: unknown): boolean {
+  return Array.isArray(value) || isPlainObject(value);
+}
+
+// Quote and escape a string; JSON.stringify covers quotes, backslashes and control characters
+export function formatJsonString(value: string, asciiOnly = false): string {
+  const quoted = JSON.stringify(value);
+  if (!asciiOnly) return quoted;
+  return quoted.replace(/[\u0080-\uffff]/g, char => '\\u' + char.charCodeAt(0).toString(16).padStart(4, '0'));
+}
+
+// True when the source writes non-ASCII characters as \uXXXX escapes rather than literally
+export function prefersUnicodeEscapes(raw: string): boolean {
+  // Escapes of ASCII characters (\u0022 and friends) say nothing about the author's choice
+  const escaped = /\\u[0-9a-fA-F]{4}/.test(raw.replace(/\\u00[0-7][0-9a-fA-F]/g, ''));
+  return escaped && !/[\u0080-\uffff]/.test(raw);
+}
+
+// Format a value for insertion at a position whose line is indented by `indent`
+export function formatJsonValue(value: unknown, indent = '', options: FormatOptions = {}): string {
+  const { indentUnit = '  ', newline = '\n', asciiOnly = false } = options;
+  const inner = indent + indentUnit;
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    if (!value.some(isContainer)) {
+      return `[${value.map(item => formatJsonValue(item, '', options)).join(', ')}]`;
+    }
+    const items = value.map(item => inner + formatJsonValue(item, inner, options));
+    return `[${newline}${items.join(',' + newline)}${newline}${indent}]`;
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return '{}';
+    const members = entries.map(
+      ([key, item]) => `${inner}${formatJsonString(key, asciiOnly)}: ${formatJsonValue(item, inner, options)}`
+    );
+    return `{${newline}${members.join(',' + newline)}${newline}${indent}}`;
+  }
+
+  if (typeof value === 'string') {
+    return formatJsonString(value, asciiOnly);
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+function formatOptions(ctx: EditContext, asciiOnly = ctx.asciiOnly): FormatOptions {
+  return { indentUnit: ctx.indentUnit, newline: ctx.newline, asciiOnly };
+}
+
+function replaceNode(ctx: EditContext, node: JsoncNode, value: unknown) {
+  const indent = lineIndent(ctx.text, node.start);
+  // A string keeps the escaping style its author used for it
+  const asciiOnly = node.type === 'string' ? prefersUnicodeEscapes(node.token.text) || ctx.asciiOnly : ctx.asciiOnly;
+  ctx.edits.push({
+    start: node.start,
+    end: node.end,
+    text: formatJsonValue(value, indent, formatOptions(ctx, asciiOnly)),
+  });
+}
+
+// An object member or array element: where it starts, its value and the comma after it
+interface Entry {
+  start: number;
+  value: JsoncNode;
+  comma?: JsoncToken;
+}
+
+// Writes a new entry's text for a line indented by `indent`
+type EntryFormatter = (indent: string) => string;
+
+const memberEntry = (member: JsoncMember): Entry => ({ start: member.keyToken.start, value: member.value, comma: member.comma });
+const elementEntry = (element: JsoncElement): Entry => ({ start: element.value.start, value: element.value, comma: element.comma });
+
+function removeEntry(ctx: EditContext, entry: Entry) {
+  const { text } = ctx;
+  let start = entry.start;
+  let end = entry.comma ? entry.comma.end : entry.value.end;
+
+  // Comments after the entry on the same line belong to it
+  end += /^(?:[ \t]*\/\*[^\n]*?\*\/)*(?:[ \t]*\/\/[^\n]*)?/.exec(text.slice(end))![0].length;
+
+  // An entry on its own line takes the whole line with it
+  const rest = /^[ \t]*\n?/.exec(text.slice(end))![0];
+  if (startsLine(text, start) && (rest.endsWith('\n') || end + rest.length === text.length)) {
+    start = lineStart(text, start);
+    end += rest.length;
+  } else if (/[ \t]$/.test(text.slice(0, start))) {
+    while (start > 0 && (text[start - 1] === ' ' || text[start - 1] === '\t')) start--;
+  } else {
+    // Right after the opening bracket, the space before the next entry goes instead
+    end += /^[ \t]*/.exec(text.slice(end))![0].length;
+  }
+
+  ctx.edits.push({ start, end, text: '' });
+}
+
+// Adds entries after the last kept one, before the closing bracket at `closeOffset`
+function appendEntries(ctx: EditContext, closeOffset: number, lastKept: Entry | undefined, added: EntryFormatter[]) {
+  const { text } = ctx;
+
+  if (startsLine(text, closeOffset)) {
+    const indent = lastKept && startsLine(text, lastKept.start)
+      ? lineIndent(text, lastKept.start)
+      : lineIndent(text, closeOffset) + ctx.indentUnit;
+    const lines = added.map((format, index) => `${indent}${format(indent)}${index < added.length - 1 ? ',' : ''}${ctx.newline}`);
+    const at = lineStart(text, closeOffset);
+    ctx.edits.push({ start: at, end: at, text: lines.join('') });
+  } else {
+    // The bracket shares a line with the last entry, so the new ones go just before it
+    const at = closeOffset - /[ \t]*$/.exec(text.slice(0, closeOffset))![0].length;
+    if (lastKept && startsLine(text, lastKept.start)) {
+      const indent = lineIndent(text, lastKept.start);
+      ctx.edits.push({ start: at, end: at, text: added.map(format => ctx.newline + indent + format(indent)).join(',') });
+    } else {
+      const indent = lineIndent(text, closeOffset);
+      ctx.edits.push({ start: at, end: at, text: ' ' + added.map(format => format(indent)).join(', ') });
+    }
+  }
+
+  // Pushed after the entries: edits at the same offset end up in the text in reverse order
+  if (lastKept && !lastKept.comma) {
+    ctx.edits.push({ start: lastKept.value.end, end: lastKept.value.end, text: ',' });
+  }
+}
+
+// Adds entries in front of `next`, on lines of their own when it is on one
+function insertEntries(ctx: EditContext, next: Entry, added: EntryFormatter[]) {
+  const { text } = ctx;
+  const indent = lineIndent(text, next.start);
+  const separator = startsLine(text, next.start) ? ',' + ctx.newline + indent : ', ';
+  ctx.edits.push({ start: next.start, end: next.start, text: added.map(format => format(indent) + separator).join('') });
+}
+
+// Once entries at the end are removed, the comma of the new last one is dangling
+function dropDanglingComma(ctx: EditContext, lastKept: Entry | undefined, lastOriginal: Entry | undefined) {
+  if (lastKept && lastKept !== lastOriginal && lastKept.comma) {
+    ctx.edits.push({ start: lastKept.comma.start, end: lastKept.comma.end, text: '' });
+  }
+}
+
+function patchObject(ctx: EditContext, node: JsoncObjectNode, value: Record<string, unknown>) {
+  const existing = new Set(node.members.map(member => member.key));
+  const entries = node.members.map(memberEntry);
+  const kept = entries.filter((_, index) => hasKey(value, node.members[index].key));
+  const removed = entries.filter((_, index) => !hasKey(value, node.members[index].key));
+  const added = Object.keys(value).filter(key => !existing.has(key));
+  const closeOffset = node.end - 1;
+
+  // With no member left to line up with, an object written on one line is simply reformatted
+  if (added.length > 0 && kept.length === 0 && !startsLine(ctx.text, closeOffset)) {
+    replaceNode(ctx, node, value);
+    return;
+  }
+
+  node.members.forEach(member => hasKey(value, member.key) && patchNode(ctx, member.value, value[member.key]));
+  removed.forEach(entry => removeEntry(ctx, entry));
+
+  const lastKept = kept[kept.length - 1];
+  if (added.length > 0) {
+    const format = (key: string): EntryFormatter => indent =>
+      `${formatJsonString(key, ctx.asciiOnly)}: ${formatJsonValue(value[key], indent, formatOptions(ctx))}`;
+    appendEntries(ctx, closeOffset, lastKept, added.map(format));
+  } else {
+    dropDanglingComma(ctx, lastKept, entries[entries.length - 1]);
+  }
+}
+
+// Unchanged elements at either end stay as they are; the changed middle is patched index by index,
+// with the elements it gained or lost added or removed where it ends
+function patchArray(ctx: EditContext, node: JsoncArrayNode, value: unknown[]) {
+  const entries = node.elements.map(elementEntry);
+  // Nothing to line new elements up with
+  if (entries.length === 0) {
+    replaceNode(ctx, node, value);
+    return;
+  }
+
+  const matches = (index: number, valueIndex: number) => valuesEqual(nodeToValue(entries[index].value), value[valueIndex]);
+  let prefix = 0;
+  while (prefix < entries.length && prefix < value.length && matches(prefix, prefix)) prefix++;
+  let suffix = 0;
+  while (
+    suffix < entries.length - prefix &&
+    suffix < value.length - prefix &&
+    matches(entries.length - 1 - suffix, value.length - 1 - suffix)
+  ) suffix++;
+
+  const paired = Math.min(entries.length, value.length) - prefix - suffix;
+  for (let i = prefix; i < prefix + paired; i++) patchNode(ctx, entries[i].value, value[i]);
+
+  const removed = entries.slice(prefix + paired, entries.length - suffix);
+  removed.forEach(entry => removeEntry(ctx, entry));
+  const kept = entries.filter(entry => !removed.includes(entry));
+
+  const added = value
+    .slice(prefix + paired, value.length - suffix)
+    .map((item): EntryFormatter => indent => formatJsonValue(item, indent, formatOptions(ctx)));
+  if (added.length === 0) {
+    dropDanglingComma(ctx, kept[kept.length - 1], entries[entries.length - 1]);
+  } else if (suffix > 0) {
+    insertEntries(ctx, entries[entries.length - suffix], added);
+  } else {
+    appendEntries(ctx, node.end - 1, kept[kept.length - 1], added);
+  }
+}
+
+function patchNode(ctx: EditContext, node: JsoncNode, value: unknown) {
+  if (valuesEqual(nodeToValue(node), value)) return;
+
+  if (node.type === 'object' && isPlainObject(value)) {
+    patchObject(ctx, node, value);
+    return;
+  }
+
+  if (node.type === 'array' && Array.isArray(value)) {
+    patchArray(ctx, node, value);
+    return;
+  }
+
+  replaceNode(ctx, node, value);
+}
+
+function detectIndentUnit(text: string, root: JsoncNode): string {
+  if (root.type === 'object' && root.members.length > 0) {
+    const first = root.members[0].keyToken.start;
+    const indent = lineIndent(text, first);
+    if (startsLine(text, first) && indent) return indent;
+  }
+  return '  ';
+}
+
+// Produce the document text for `value`, rewriting only the parts of the source that changed
+export function updateJsoncDocument(document: JsoncDocument, value: unknown): string {
+  const { text, root } = document;
+  const ctx: EditContext = {
+    text,
+    newline: text.includes('\r\n') ? '\r\n' : '\n',
+    indentUnit: detectIndentUnit(text, root),
+    asciiOnly: prefersUnicodeEscapes(text),
+    edits: [],
+  };
+
+  patchNode(ctx, root, value);
+
+  // Apply from the end of the file backwards so earlier offsets stay valid
+  const edits = [...ctx.edits].sort((a, b) => b.start - a.start || b.end - a.end);
+  let result = text;
+  for (const edit of edits) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+  return result;
+}
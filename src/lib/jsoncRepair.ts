@@ -0,0 +1,183 @@
+// Opt-in repairs for common hand-editing mistakes in JSONC files
+import { isTrivia, JsoncParseError, offsetToPosition, parseJsonc, tokenizeJsonc, type JsoncToken } from './jsonc';
+
+export type RepairKind = 'smartQuotes' | 'missingComma' | 'extraClosing' | 'trailingComma';
+
+export interface RepairFix {
+  kind: RepairKind;
+  // 1-based line in the original file
+  line: number;
+  description: string;
+}
+
+export interface RepairResult {
+  text: string;
+  fixes: RepairFix[];
+  // Set when the text still fails to parse after every repair was tried
+  error?: JsoncParseError;
+}
+
+const SMART_DOUBLE_QUOTES = '“”„‟″';
+const SMART_SINGLE_QUOTES = '‘’‚‛′';
+const VALUE_START_TOKENS = new Set(['string', 'number', 'true', 'false', 'null', 'openBrace', 'openBracket']);
+const MAX_PASSES = 500;
+
+const isSmartQuote = (char: string) => SMART_DOUBLE_QUOTES.includes(char) || SMART_SINGLE_QUOTES.includes(char);
+
+// A curly quote inside a straight-quoted string closes it only when it is followed by JSON
+// punctuation and no straight quote is left on the line to close the string instead
+function closesString(chars: string[], from: number): boolean {
+  let end = chars.indexOf('\n', from);
+  if (end === -1) end = chars.length;
+  const rest = chars.slice(from, end).join('');
+  return !rest.includes('"') && /^[ \t]*(?:[,:}\]]|\r?$)/.test(rest);
+}
+
+// Replace curly quotes used as string delimiters; curly quotes inside normal strings are content
+function replaceSmartQuotes(text: string, fixes: RepairFix[]): string {
+  const chars = [...text];
+  const fixedLines = new Set<number>();
+  let line = 1;
+  let state: 'normal' | 'string' | 'smartString' | 'lineComment' | 'blockComment' = 'normal';
+
+  const replaceAt = (index: number) => {
+    chars[index] = '"';
+    fixedLines.add(line);
+  };
+
+  for (let i = 0; i < chars.length; i++) {
+    const char = chars[i];
+    const next = chars[i + 1];
+
+    if (char === '\n') {
+      line++;
+      if (state === 'lineComment' || state === 'string' || state === 'smartString') state = 'normal';
+      continue;
+    }
+
+    switch (state) {
+      case 'normal':
+        if (char === '"') state = 'string';
+        else if (isSmartQuote(char)) {
+          replaceAt(i);
+          state = 'smartString';
+        } else if (char === '/' && next === '/') state = 'lineComment';
+        else if (char === '/' && next === '*') state = 'blockComment';
+        break;
+      case 'string':
+      case 'smartString':
+        if (char === '\\') i++;
+        else if (char === '"') state = 'normal';
+        else if (isSmartQuote(char) && (state === 'smartString' || closesString(chars, i + 1))) {
+          replaceAt(i);
+          state = 'normal';
+        }
+        break;
+      case 'blockComment':
+        if (char === '*' && next === '/') {
+          state = 'normal';
+          i++;
+        }
+        break;
+    }
+  }
+
+  fixedLines.forEach(fixedLine => {
+    fixes.push({ kind: 'smartQuotes', line: fixedLine, description: 'Replaced curly quotes with straight quotes' });
+  });
+
+  return chars.join('');
+}
+
+function previousSignificant(tokens: JsoncToken[], offset: number): JsoncToken | undefined {
+  let previous: JsoncToken | undefined;
+  for (const token of tokens) {
+    if (token.start >= offset) break;
+    if (!isTrivia(token)) previous = token;
+  }
+  return previous;
+}
+
+// Apply a single fix for the current parse error, or return null when it cannot be repaired
+function repairParseError(text: string, error: JsoncParseError, fixes: RepairFix[]): string | null {
+  const { diagnostic } = error;
+  let tokens: JsoncToken[];
+  try {
+    tokens = tokenizeJsonc(text);
+  } catch {
+    return null;
+  }
+
+  const found = tokens.find(token => token.start === diagnostic.offset);
+  const previous = previousSignificant(tokens, diagnostic.offset);
+  const isSeparatorError = diagnostic.expected === "',' or '}'" || diagnostic.expected === "',' or ']'";
+
+  if (isSeparatorError && found && previous && VALUE_START_TOKENS.has(found.type)) {
+    fixes.push({
+      kind: 'missingComma',
+      line: offsetToPosition(text, previous.end).line,
+      description: `Inserted a missing comma before ${found.text.length > 24 ? 'the next value' : found.text}`,
+    });
+    return text.slice(0, previous.end) + ',' + text.slice(previous.end);
+  }
+
+  if (diagnostic.expected === 'end of input' && found) {
+    // A stray closer at the end of the file, or one that closed the document too early
+    const extra = found.type === 'closeBrace' || found.type === 'closeBracket' ? found : previous;
+    if (extra && (extra.type === 'closeBrace' || extra.type === 'closeBracket')) {
+      fixes.push({
+        kind: 'extraClosing',
+        line: offsetToPosition(text, extra.start).line,
+        description: `Removed a duplicated closing '${extra.text}'`,
+      });
+      return text.slice(0, extra.start) + text.slice(extra.end);
+    }
+  }
+
+  return null;
+}
+
+function removeTrailingCommas(text: string, fixes: RepairFix[]): string {
+  const significant = tokenizeJsonc(text).filter(token => !isTrivia(token));
+  const trailing = significant.filter((token, index) => {
+    const next = significant[index + 1];
+    return token.type === 'comma' && (next?.type === 'closeBrace' || next?.type === 'closeBracket');
+  });
+
+  let result = text;
+  for (const comma of [...trailing].reverse()) {
+    result = result.slice(0, comma.start) + result.slice(comma.end);
+  }
+  trailing.forEach(comma => {
+    fixes.push({
+      kind: 'trailingComma',
+      line: offsetToPosition(text, comma.start).line,
+      description: 'Removed a trailing comma',
+    });
+  });
+  return result;
+}
+
+// Try to turn a broken file into valid JSONC, recording every change that was made
+export function repairJsonc(source: string): RepairResult {
+  const fixes: RepairFix[] = [];
+  let text = replaceSmartQuotes(source, fixes);
+
+  for (let pass = 0; ; pass++) {
+    try {
+      parseJsonc(text);
+      break;
+    } catch (e) {
+      if (!(e instanceof JsoncParseError)) throw e;
+      const repaired = pass < MAX_PASSES ? repairParseError(text, e, fixes) : null;
+      if (repaired === null) {
+        return { text, fixes, error: e };
+      }
+      text = repaired;
+    }
+  }
+
+  text = removeTrailingCommas(text, fixes);
+  fixes.sort((a, b) => a.line - b.line);
+  return { text, fixes };
+}
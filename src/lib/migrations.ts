@@ -0,0 +1,191 @@
+// Declarative key migrations between Better Bedrock versions
+import { cloneValue, valuesEqual } from './jsonValue';
+
+type JsonObject = Record<string, unknown>;
+
+export const VERSION_KEY = '$bb_version';
+
+export type MigrationRule =
+  | { type: 'rename'; from: string; to: string }
+  | { type: 'remove'; key: string }
+  | { type: 'retype'; key: string; to: 'string' | 'number' | 'boolean' }
+  // One old key becomes several new ones, each derived from the old value
+  | { type: 'split'; key: string; into: Record<string, (value: unknown) => unknown> }
+  | { type: 'transform'; key: string; description: string; transform: (value: unknown, data: JsonObject) => unknown };
+
+// Applies to configs whose $bb_version is at least `from` and below `to`; afterwards the config is at `to`
+export interface Migration {
+  from: string;
+  to: string;
+  rules: MigrationRule[];
+}
+
+export interface MigrationChange {
+  version: string;
+  key: string;
+  description: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  // The rule couldn't be applied without losing a value; the keys are left as they were
+  conflict?: boolean;
+}
+
+export interface MigrationReport {
+  fromVersion: string;
+  // Version the changes bring the config to; equals fromVersion when none apply
+  toVersion: string;
+  data: JsonObject;
+  changes: MigrationChange[];
+  // Versions no migration covers; migrating stops there rather than guess what changed
+  unsupported?: { from: string; to: string };
+}
+
+// Add an entry here whenever a release renames, removes or retypes keys, e.g.
+//   { from: '1.4', to: '1.5', rules: [{ type: 'rename', from: '$old_key', to: '$new_key' }] }
+// Entries are applied in order of `from`; the highest `to` is the current version. Take them
+// from the Better Bedrock changelog: a wrong rule rewrites users' configs on load. Until the
+// first entry lands, loading never offers a migration.
+export const MIGRATIONS: Migration[] = [];
+
+// Compares dotted versions numerically ("1.10" > "1.9"); non-numeric parts compare as text
+export function compareVersions(a: string, b: string): number {
+  const left = a.split(/[.\-+]/);
+  const right = b.split(/[.\-+]/);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const x = left[i] ?? '0';
+    const y = right[i] ?? '0';
+    const difference = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+    if (difference !== 0) return Math.sign(difference);
+  }
+  return 0;
+}
+
+export function getConfigVersion(data: JsonObject): string | null {
+  const version = data[VERSION_KEY];
+  return typeof version === 'string' || typeof version === 'number' ? String(version) : null;
+}
+
+export function latestVersion(migrations: Migration[] = MIGRATIONS): string | null {
+  return migrations.reduce<string | null>(
+    (latest, migration) => (latest === null || compareVersions(migration.to, latest) > 0 ? migration.to : latest),
+    null,
+  );
+}
+
+const retypeValue = (value: unknown, to: 'string' | 'number' | 'boolean'): unknown => {
+  switch (to) {
+    case 'string':
+      return typeof value === 'string' ? value : JSON.stringify(value);
+    case 'number': {
+      const number = Number(value);
+      return Number.isFinite(number) ? number : value;
+    }
+    case 'boolean':
+      return value === 'false' || value === '0' ? false : Boolean(value);
+  }
+};
+
+// Replaces `key` with `entries` at the same position so renamed keys stay in place
+const replaceKey = (data: JsonObject, key: string, entries: [string, unknown][]): JsonObject => {
+  const result: JsonObject = {};
+  for (const [existing, value] of Object.entries(data)) {
+    if (existing === key) {
+      for (const [name, next] of entries) result[name] = next;
+    } else if (!entries.some(([name]) => name === existing)) {
+      result[existing] = value;
+    }
+  }
+  return result;
+};
+
+const hasKey = (data: JsonObject, key: string) => Object.prototype.hasOwnProperty.call(data, key);
+
+function applyRule(data: JsonObject, rule: MigrationRule, version: string, changes: MigrationChange[]): JsonObject {
+  switch (rule.type) {
+    case 'rename': {
+      if (!hasKey(data, rule.from)) return data;
+      if (hasKey(data, rule.to) && rule.to !== rule.from) {
+        changes.push({
+          version,
+          key: rule.from,
+          description: `Not renamed: ${rule.to} already exists. Merge the two by hand.`,
+          oldValue: data[rule.from],
+          newValue: data[rule.to],
+          conflict: true,
+        });
+        return data;
+      }
+      changes.push({ version, key: rule.from, description: `Renamed to ${rule.to}`, oldValue: data[rule.from], newValue: data[rule.from] });
+      return replaceKey(data, rule.from, [[rule.to, data[rule.from]]]);
+    }
+
+    case 'remove': {
+      if (!hasKey(data, rule.key)) return data;
+      changes.push({ version, key: rule.key, description: 'Removed', oldValue: data[rule.key] });
+      return replaceKey(data, rule.key, []);
+    }
+
+    case 'retype': {
+      if (!hasKey(data, rule.key)) return data;
+      const value = retypeValue(data[rule.key], rule.to);
+      if (valuesEqual(value, data[rule.key])) return data;
+      changes.push({ version, key: rule.key, description: `Changed to ${rule.to}`, oldValue: data[rule.key], newValue: value });
+      return { ...data, [rule.key]: value };
+    }
+
+    case 'split': {
+      if (!hasKey(data, rule.key)) return data;
+      const value = data[rule.key];
+      const entries = Object.entries(rule.into).map(([name, derive]): [string, unknown] => [name, derive(cloneValue(value))]);
+      changes.push({
+        version,
+        key: rule.key,
+        description: `Split into ${entries.map(([name]) => name).join(', ')}`,
+        oldValue: value,
+        newValue: Object.fromEntries(entries),
+      });
+      return replaceKey(data, rule.key, entries);
+    }
+
+    case 'transform': {
+      if (!hasKey(data, rule.key)) return data;
+      const value = rule.transform(cloneValue(data[rule.key]), data);
+      if (valuesEqual(value, data[rule.key])) return data;
+      changes.push({ version, key: rule.key, description: rule.description, oldValue: data[rule.key], newValue: value });
+      return { ...data, [rule.key]: value };
+    }
+  }
+}
+
+// Chains the migrations from the config's version up; returns null when it is already current.
+// A version range no migration covers ends the chain and is reported as unsupported.
+export function migrateConfig(data: JsonObject, migrations: Migration[] = MIGRATIONS): MigrationReport | null {
+  const fromVersion = getConfigVersion(data);
+  const toVersion = latestVersion(migrations);
+  if (fromVersion === null || toVersion === null || compareVersions(fromVersion, toVersion) >= 0) return null;
+
+  const ordered = [...migrations].sort((a, b) => compareVersions(a.from, b.from));
+  const changes: MigrationChange[] = [];
+  let version = fromVersion;
+  let result = cloneValue(data);
+  let unsupported: MigrationReport['unsupported'];
+
+  for (const migration of ordered) {
+    if (compareVersions(version, migration.to) >= 0) continue;
+    if (compareVersions(version, migration.from) < 0) {
+      unsupported = { from: version, to: migration.from };
+      break;
+    }
+    for (const rule of migration.rules) {
+      result = applyRule(result, rule, migration.to, changes);
+    }
+    version = migration.to;
+  }
+
+  if (version === fromVersion) return unsupported ? { fromVersion, toVersion: version, data: result, changes, unsupported } : null;
+
+  result[VERSION_KEY] = typeof data[VERSION_KEY] === 'number' && !Number.isNaN(Number(version)) ? Number(version) : version;
+  changes.push({ version, key: VERSION_KEY, description: 'Version updated', oldValue: data[VERSION_KEY], newValue: result[VERSION_KEY] });
+
+  return { fromVersion, toVersion: version, data: result, changes, unsupported };
+}
@@ -0,0 +1,75 @@
+// A companion resource pack that sits above the base pack and overrides only the changed variables
+import { strToU8, zipSync } from 'fflate';
+import { valuesEqual } from './jsonValue';
+
+type ConfigData = Record<string, unknown>;
+
+export const DEFAULT_OVERRIDE_PATH = 'ui/_global_variables.json';
+
+export interface OverridePackOptions {
+  name: string;
+  description?: string;
+  // Header UUID and version of the pack being overridden
+  baseUuid: string;
+  baseVersion: string;
+  // Path of the overriding file inside the pack
+  path?: string;
+}
+
+export interface OverrideDiff {
+  overrides: ConfigData;
+  // Keys deleted from the base; an override pack can change values but not remove them
+  removed: string[];
+}
+
+const hasKey = (object: ConfigData, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+// Changed and added keys, in the order they appear in `data`
+export function diffOverrides(originalData: ConfigData, data: ConfigData): OverrideDiff {
+  const overrides = Object.fromEntries(
+    Object.entries(data).filter(([key, value]) => !hasKey(originalData, key) || !valuesEqual(originalData[key], value)),
+  );
+  return { overrides, removed: Object.keys(originalData).filter(key => !hasKey(data, key)) };
+}
+
+// "1.2.3" -> [1, 2, 3]; dependencies are written as version triples, so anything else is null
+export function parseVersionTriple(version: string): number[] | null {
+  const parts = version.trim().split('.');
+  return parts.length === 3 && parts.every(part => /^\d+$/.test(part)) ? parts.map(Number) : null;
+}
+
+// Override packs can only carry variables: other JSON UI files need their full contents and namespace
+export const canOverrideFile = (path: string) => /global_variables\.json$/i.test(path);
+
+export function buildOverrideManifest(options: OverridePackOptions, createUuid: () => string = () => crypto.randomUUID()) {
+  const baseVersion = parseVersionTriple(options.baseVersion);
+  if (!baseVersion) throw new Error(`"${options.baseVersion}" is not a version like 1.2.3`);
+  return {
+    format_version: 2,
+    header: {
+      name: options.name,
+      description: options.description ?? '',
+      uuid: createUuid(),
+      version: [1, 0, 0],
+      min_engine_version: [1, 16, 0],
+    },
+    modules: [{ type: 'resources', uuid: createUuid(), version: [1, 0, 0] }],
+    dependencies: [{ uuid: options.baseUuid, version: baseVersion }],
+  };
+}
+
+// The .mcpack bytes: a fresh manifest plus the overriding variables file
+export function buildOverridePack(
+  options: OverridePackOptions,
+  overrides: ConfigData,
+  createUuid?: () => string,
+): Uint8Array {
+  const toJson = (value: unknown) => strToU8(JSON.stringify(value, null, 2) + '\n');
+  return zipSync({
+    'manifest.json': toJson(buildOverrideManifest(options, createUuid)),
+    [options.path ?? DEFAULT_OVERRIDE_PATH]: toJson(overrides),
+  });
+}
+
+// "BB: Overrides" -> "BB Overrides.mcpack"; drops characters that file systems reject
+export const overridePackFileName = (name: string) => `${name.replace(/[\\/:*?"<>|]/g, '').trim() || 'Overrides'}.mcpack`;
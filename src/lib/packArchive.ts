@@ -0,0 +1,50 @@
+// .mcpack / .zip resource pack archives, read and rebuilt in the browser
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import { buildPackFolder, type PackFolder } from './packFolder';
+
+export interface PackArchive {
+  fileName: string;
+  // Folder inside the archive that holds manifest.json, e.g. "Better Bedrock/" or ""
+  root: string;
+  files: Record<string, Uint8Array>;
+}
+
+export const isPackArchiveName = (name: string) => /\.(mcpack|zip)$/i.test(name);
+
+// Packs are often zipped with their folder, so manifest.json isn't always at the top
+function findPackRoot(paths: string[]): string {
+  const manifests = paths
+    .filter(path => path === 'manifest.json' || path.endsWith('/manifest.json'))
+    .sort((a, b) => a.split('/').length - b.split('/').length);
+  return manifests.length > 0 ? manifests[0].slice(0, -'manifest.json'.length) : '';
+}
+
+export async function readPackArchive(bytes: Uint8Array, fileName: string): Promise<PackFolder> {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(bytes);
+  } catch (e) {
+    throw new Error(`${fileName} is not a valid archive: ${(e as Error).message}`);
+  }
+
+  const paths = Object.keys(files).filter(path => !path.endsWith('/'));
+  const root = findPackRoot(paths);
+  const sources = paths
+    .filter(path => path.startsWith(root))
+    .map(path => ({
+      path: path.slice(root.length),
+      getFile: async () => new File([files[path]], path.slice(path.lastIndexOf('/') + 1)),
+    }));
+
+  const folder = await buildPackFolder(fileName.replace(/\.(mcpack|zip)$/i, ''), sources);
+  return { ...folder, archive: { fileName, root, files } };
+}
+
+// Same archive with the given pack files (paths relative to the pack root) replaced
+export function rebuildPackArchive(archive: PackArchive, replacements: Record<string, string>): Uint8Array {
+  const files = { ...archive.files };
+  for (const [path, text] of Object.entries(replacements)) {
+    files[archive.root + path] = strToU8(text);
+  }
+  return zipSync(files);
+}
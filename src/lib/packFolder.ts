@@ -0,0 +1,187 @@
+// Scan a resource pack folder for manifest info and JSON UI files that define $ variables
+import { parseJsonc, nodeToValue } from './jsonc';
+import { isPlainObject } from './jsonValue';
+import type { PackArchive } from './packArchive';
+
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+  }
+
+  // Not in the DOM types this project compiles against
+  interface FileSystemDirectoryHandle {
+    values(): AsyncIterableIterator<FileSystemHandle>;
+  }
+}
+
+// Files larger than this are skipped while scanning; JSON UI files are far smaller
+const MAX_SCAN_BYTES = 2 * 1024 * 1024;
+
+export interface PackDependency {
+  // Pack dependencies are identified by uuid, script modules by module_name
+  uuid?: string;
+  moduleName?: string;
+  version?: string;
+}
+
+export interface PackManifestInfo {
+  name: string;
+  description?: string;
+  version?: string;
+  uuid?: string;
+  dependencies: PackDependency[];
+}
+
+export interface PackFile {
+  // Path inside the pack, with forward slashes, e.g. "ui/_global_variables.json"
+  path: string;
+  name: string;
+  variableCount: number;
+  getFile: () => Promise<File>;
+  // Present when the folder was opened with write access, so saves go back into it
+  handle?: FileSystemFileHandle;
+}
+
+export interface PackFolder {
+  name: string;
+  manifest: PackManifestInfo | null;
+  configs: PackFile[];
+  // Source of manifest.json, kept so exports can bump its version and UUIDs
+  manifestFile?: { text: string; handle?: FileSystemFileHandle };
+  // Set when the pack was opened from a .mcpack / .zip; exports rebuild the archive
+  archive?: PackArchive;
+}
+
+type FileSource = Omit<PackFile, 'name' | 'variableCount'>;
+
+export const supportsDirectoryPicker = () => typeof window !== 'undefined' && typeof window.showDirectoryPicker === 'function';
+
+// Counts distinct "$name": declarations anywhere in the file
+export function countVariables(text: string): number {
+  const names = new Set<string>();
+  for (const match of text.matchAll(/"(\$[^"\\]+)"\s*:/g)) names.add(match[1]);
+  return names.size;
+}
+
+// `version` is written either as [1, 2, 3] or as a string
+const formatVersion = (version: unknown) =>
+  Array.isArray(version) ? version.join('.') : typeof version === 'string' ? version : undefined;
+
+export function readManifestInfo(text: string): PackManifestInfo | null {
+  let manifest: unknown;
+  try {
+    manifest = nodeToValue(parseJsonc(text).root);
+  } catch {
+    return null;
+  }
+  if (!isPlainObject(manifest) || !isPlainObject(manifest.header)) return null;
+
+  const { header } = manifest;
+  return {
+    name: typeof header.name === 'string' ? header.name : 'Unnamed pack',
+    description: typeof header.description === 'string' ? header.description : undefined,
+    version: formatVersion(header.version),
+    uuid: typeof header.uuid === 'string' ? header.uuid : undefined,
+    dependencies: Array.isArray(manifest.dependencies)
+      ? manifest.dependencies.filter(isPlainObject).map(dependency => ({
+          uuid: typeof dependency.uuid === 'string' ? dependency.uuid : undefined,
+          moduleName: typeof dependency.module_name === 'string' ? dependency.module_name : undefined,
+          version: formatVersion(dependency.version),
+        }))
+      : [],
+  };
+}
+
+const baseName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+const isGlobalVariables = (file: PackFile) => /global_variables\.json$/i.test(file.name);
+
+// global_variables.json is what most users are after, so it goes first
+const sortConfigs = (a: PackFile, b: PackFile) => {
+  const aGlobal = isGlobalVariables(a);
+  const bGlobal = isGlobalVariables(b);
+  return aGlobal !== bGlobal ? (aGlobal ? -1 : 1) : a.path.localeCompare(b.path);
+};
+
+export const findGlobalVariables = (pack: PackFolder) => pack.configs.find(isGlobalVariables) ?? null;
+
+export async function buildPackFolder(name: string, sources: FileSource[]): Promise<PackFolder> {
+  let manifest: PackManifestInfo | null = null;
+  let manifestFile: PackFolder['manifestFile'];
+  const configs: PackFile[] = [];
+
+  for (const source of sources) {
+    if (!source.path.toLowerCase().endsWith('.json')) continue;
+    const file = await source.getFile();
+    if (file.size > MAX_SCAN_BYTES) continue;
+    const text = await file.text();
+
+    if (source.path === 'manifest.json') {
+      manifest = readManifestInfo(text);
+      manifestFile = { text, handle: source.handle };
+      continue;
+    }
+
+    const variableCount = countVariables(text);
+    if (variableCount > 0) configs.push({ ...source, name: baseName(source.path), variableCount });
+  }
+
+  return { name, manifest, configs: configs.sort(sortConfigs), manifestFile };
+}
+
+async function collectFromHandle(directory: FileSystemDirectoryHandle, prefix = ''): Promise<FileSource[]> {
+  const sources: FileSource[] = [];
+  for await (const handle of directory.values()) {
+    const path = prefix + handle.name;
+    if (handle.kind === 'directory') {
+      sources.push(...(await collectFromHandle(handle as FileSystemDirectoryHandle, path + '/')));
+    } else {
+      const fileHandle = handle as FileSystemFileHandle;
+      sources.push({ path, getFile: () => fileHandle.getFile(), handle: fileHandle });
+    }
+  }
+  return sources;
+}
+
+// Folders dropped in browsers without handle support arrive as read-only entries
+async function collectFromEntry(directory: FileSystemDirectoryEntry, prefix = ''): Promise<FileSource[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns the listing in batches until it comes back empty
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+
+  const sources: FileSource[] = [];
+  for (const entry of entries) {
+    const path = prefix + entry.name;
+    if (entry.isDirectory) {
+      sources.push(...(await collectFromEntry(entry as FileSystemDirectoryEntry, path + '/')));
+    } else {
+      const fileEntry = entry as FileSystemFileEntry;
+      sources.push({ path, getFile: () => new Promise<File>((resolve, reject) => fileEntry.file(resolve, reject)) });
+    }
+  }
+  return sources;
+}
+
+export async function scanDirectoryHandle(directory: FileSystemDirectoryHandle): Promise<PackFolder> {
+  return buildPackFolder(directory.name, await collectFromHandle(directory));
+}
+
+export async function scanDirectoryEntry(directory: FileSystemDirectoryEntry): Promise<PackFolder> {
+  return buildPackFolder(directory.name, await collectFromEntry(directory));
+}
+
+export async function openPackWithPicker(): Promise<PackFolder | null> {
+  let directory: FileSystemDirectoryHandle;
+  try {
+    directory = await window.showDirectoryPicker!({ mode: 'readwrite' });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') return null;
+    throw error;
+  }
+  return scanDirectoryHandle(directory);
+}
@@ -0,0 +1,48 @@
+// Version and UUID bumps for manifest.json. Minecraft caches packs by header UUID and version,
+// so an edited pack that keeps both shows the old files in-game.
+import { nodeToValue, parseJsonc } from './jsonc';
+import { updateJsoncDocument } from './jsoncDocument';
+import { isPlainObject } from './jsonValue';
+
+export interface ManifestBumpOptions {
+  version: boolean;
+  uuids: boolean;
+}
+
+// [1, 2, 3] -> [1, 2, 4] and "1.2.3" -> "1.2.4"; anything else is returned unchanged
+export function bumpVersion(version: unknown): unknown {
+  if (Array.isArray(version)) {
+    const last = version.length - 1;
+    return typeof version[last] === 'number' ? version.map((part, i) => (i === last ? part + 1 : part)) : version;
+  }
+  if (typeof version === 'string') {
+    return version.replace(/(\d+)(?!.*\d)/, digits => String(Number(digits) + 1));
+  }
+  return version;
+}
+
+// Returns the manifest text with the requested bumps, keeping its comments and layout
+export function bumpManifest(
+  text: string,
+  options: ManifestBumpOptions,
+  createUuid: () => string = () => crypto.randomUUID(),
+): string {
+  const parsed = parseJsonc(text);
+  const manifest = nodeToValue(parsed.root);
+  if (!isPlainObject(manifest) || !isPlainObject(manifest.header)) {
+    throw new Error('manifest.json has no header');
+  }
+
+  const { header } = manifest;
+  if (options.version && header.version !== undefined) header.version = bumpVersion(header.version);
+  if (options.uuids) {
+    header.uuid = createUuid();
+    if (Array.isArray(manifest.modules)) {
+      for (const module of manifest.modules) {
+        if (isPlainObject(module)) module.uuid = createUuid();
+      }
+    }
+  }
+
+  return updateJsoncDocument({ text, root: parsed.root, tokens: parsed.tokens }, manifest);
+}
@@ -0,0 +1,84 @@
+// Named configurations kept in the browser, so users can switch between setups
+import { deleteRecord, getAll, isIndexedDbAvailable, putRecord } from './db';
+import { parseJsonWithComments } from './jsonParser';
+import { isPlainObject } from './jsonValue';
+
+const STORE = 'profiles';
+
+export const LIBRARY_FORMAT = 'bb-config-profiles';
+const LIBRARY_VERSION = 1;
+
+export interface Profile {
+  id: string;
+  name: string;
+  // File name used when the profile is opened and exported
+  fileName: string;
+  // Serialized config including comments, as produced by serializeWithComments
+  text: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const createProfileId = () => crypto.randomUUID();
+
+export async function listProfiles(): Promise<Profile[]> {
+  if (!isIndexedDbAvailable()) return [];
+  const profiles = await getAll<Profile>(STORE);
+  return profiles.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveProfile(profile: Profile): Promise<void> {
+  if (!isIndexedDbAvailable()) throw new Error('This browser does not support local storage for profiles');
+  await putRecord(STORE, profile);
+}
+
+export async function deleteProfile(id: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await deleteRecord(STORE, id);
+}
+
+// "PvP" -> "PvP (2)" when the name is taken
+export function uniqueProfileName(name: string, existing: string[]): string {
+  const taken = new Set(existing);
+  if (!taken.has(name)) return name;
+  let counter = 2;
+  while (taken.has(`${name} (${counter})`)) counter++;
+  return `${name} (${counter})`;
+}
+
+export function serializeLibrary(profiles: Profile[]): string {
+  return JSON.stringify({ format: LIBRARY_FORMAT, version: LIBRARY_VERSION, profiles }, null, 2) + '\n';
+}
+
+// Reads an exported library; every profile must hold a config the editor can open
+export function parseLibrary(text: string): Omit<Profile, 'id'>[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Invalid library file: ' + (e as Error).message);
+  }
+  if (!isPlainObject(parsed) || parsed.format !== LIBRARY_FORMAT || !Array.isArray(parsed.profiles)) {
+    throw new Error('This is not a profile library exported from BB Config Editor');
+  }
+
+  return parsed.profiles.map((profile, index) => {
+    if (!isPlainObject(profile) || typeof profile.name !== 'string' || typeof profile.text !== 'string') {
+      throw new Error(`Profile ${index + 1} is missing its name or contents`);
+    }
+    try {
+      parseJsonWithComments(profile.text);
+    } catch (e) {
+      throw new Error(`Profile "${profile.name}": ${(e as Error).message}`);
+    }
+
+    const now = Date.now();
+    return {
+      name: profile.name,
+      fileName: typeof profile.fileName === 'string' ? profile.fileName : 'global_variables.json',
+      text: profile.text,
+      createdAt: typeof profile.createdAt === 'number' ? profile.createdAt : now,
+      updatedAt: typeof profile.updatedAt === 'number' ? profile.updatedAt : now,
+    };
+  });
+}
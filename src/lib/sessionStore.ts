@@ -0,0 +1,57 @@
+// Autosaved editing sessions, kept in IndexedDB so a reload or crash doesn't lose edits
+import type { HistoryState } from '@/hooks/use-edit-history';
+import { deleteRecord, getAll, isIndexedDbAvailable, putRecord } from './db';
+import { parseJsonWithComments, serializeWithComments } from './jsonParser';
+
+const STORE = 'sessions';
+
+// Older sessions beyond this are pruned on save
+export const MAX_SESSIONS = 10;
+// Only the most recent steps are persisted; every step holds a full snapshot
+export const MAX_STORED_HISTORY = 50;
+
+export interface StoredSession<T = Record<string, unknown>> {
+  id: string;
+  fileName: string;
+  // Source text the session was opened from; re-parsed on restore for sections and comments
+  originalText: string;
+  sectionMarker: string;
+  expandedSections: string[];
+  history: HistoryState<T>;
+  updatedAt: number;
+}
+
+export const createSessionId = () => crypto.randomUUID();
+
+// Keep the last `limit` steps, always including the current one
+export function trimHistory<T>(history: HistoryState<T>, limit = MAX_STORED_HISTORY): HistoryState<T> {
+  const start = Math.max(0, Math.min(history.entries.length - limit, history.index));
+  const end = Math.min(history.entries.length, start + limit);
+  return { entries: history.entries.slice(start, end), index: history.index - start };
+}
+
+export async function listSessions<T>(): Promise<StoredSession<T>[]> {
+  if (!isIndexedDbAvailable()) return [];
+  const sessions = await getAll<StoredSession<T>>(STORE);
+  return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveSession<T>(session: StoredSession<T>): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await putRecord(STORE, { ...session, history: trimHistory(session.history) });
+
+  const sessions = await listSessions();
+  await Promise.all(sessions.slice(MAX_SESSIONS).map(old => deleteRecord(STORE, old.id)));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await deleteRecord(STORE, id);
+}
+
+// Current state of a session written out with the comments and layout of its source text
+export function serializeSession(session: StoredSession): string {
+  const { sections, document } = parseJsonWithComments(session.originalText, { sectionMarker: session.sectionMarker });
+  const { entries, index } = session.history;
+  return serializeWithComments(entries[index].snapshot, sections, document);
+}
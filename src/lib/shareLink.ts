@@ -0,0 +1,45 @@
+// Share links: a JSON Patch, compressed and base64url-encoded into the URL hash.
+// The patch is the diff against the file the sender opened and is applied to a file the
+// recipient uploads; the app ships no default config to diff against or apply to.
+import { parsePatch, type JsonPatchOperation } from './jsonPatch';
+
+// Query parameter inside the hash route, e.g. "#/?share=..."
+export const SHARE_PARAM = 'share';
+
+// Discord messages are capped at 2000 characters; longer changes go out as a patch file
+export const MAX_SHARE_URL_LENGTH = 2000;
+
+const COMPRESSION = 'deflate-raw';
+
+const transform = async (bytes: BufferSource, stream: GenericTransformStream) =>
+  new Uint8Array(await new Response(new Response(bytes).body!.pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+export async function encodeSharePayload(operations: JsonPatchOperation[]): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(operations));
+  return toBase64Url(await transform(bytes, new CompressionStream(COMPRESSION)));
+}
+
+export async function decodeSharePayload(payload: string): Promise<JsonPatchOperation[]> {
+  let text: string;
+  try {
+    text = new TextDecoder().decode(await transform(fromBase64Url(payload), new DecompressionStream(COMPRESSION)));
+  } catch {
+    throw new Error('The share link is damaged or incomplete');
+  }
+  return parsePatch(text);
+}
+
+export function buildShareUrl(payload: string, base: Pick<Location, 'origin' | 'pathname'> = window.location): string {
+  return `${base.origin}${base.pathname}#/?${SHARE_PARAM}=${payload}`;
+}
@@ -0,0 +1,165 @@
+// Line-based text diff for reviewing exports
+
+export type DiffLineType = 'equal' | 'added' | 'removed';
+
+export interface DiffLine {
+  type: DiffLineType;
+  // Line content without its line ending
+  text: string;
+  // The line ended in CRLF; lines are compared with their endings, so a change of ending shows as a change
+  crlf?: boolean;
+  // 1-based line numbers in the old and new text
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export type DiffHunk =
+  | { type: 'lines'; lines: DiffLine[] }
+  | { type: 'collapsed'; count: number };
+
+export interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+// Above this many cells the LCS table is skipped and the changed block is shown as replaced
+const MAX_LCS_CELLS = 4_000_000;
+
+// Each line keeps a trailing \r, so CRLF and LF versions of a line don't compare equal
+const splitLines = (text: string) => text.split('\n');
+
+const lineContent = (line: string): Pick<DiffLine, 'text' | 'crlf'> =>
+  line.endsWith('\r') ? { text: line.slice(0, -1), crlf: true } : { text: line };
+
+function lcsDiff(oldLines: string[], newLines: string[]): DiffLineType[] {
+  const rows = oldLines.length;
+  const cols = newLines.length;
+
+  if (rows * cols > MAX_LCS_CELLS) {
+    return [...oldLines.map((): DiffLineType => 'removed'), ...newLines.map((): DiffLineType => 'added')];
+  }
+
+  // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lengths = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const ops: DiffLineType[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      ops.push('equal');
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push('removed');
+      i++;
+    } else {
+      ops.push('added');
+      j++;
+    }
+  }
+  while (i++ < rows) ops.push('removed');
+  while (j++ < cols) ops.push('added');
+  return ops;
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+
+  // Common prefix and suffix are matched directly so only the changed middle goes through LCS
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) suffix++;
+
+  const ops: DiffLineType[] = [
+    ...Array<DiffLineType>(prefix).fill('equal'),
+    ...lcsDiff(oldLines.slice(prefix, oldLines.length - suffix), newLines.slice(prefix, newLines.length - suffix)),
+    ...Array<DiffLineType>(suffix).fill('equal'),
+  ];
+
+  const result: DiffLine[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  for (const type of ops) {
+    if (type === 'equal') {
+      result.push({ type, ...lineContent(newLines[newIndex]), oldNumber: oldIndex + 1, newNumber: newIndex + 1 });
+      oldIndex++;
+      newIndex++;
+    } else if (type === 'removed') {
+      result.push({ type, ...lineContent(oldLines[oldIndex]), oldNumber: oldIndex + 1 });
+      oldIndex++;
+    } else {
+      result.push({ type, ...lineContent(newLines[newIndex]), newNumber: newIndex + 1 });
+      newIndex++;
+    }
+  }
+  return result;
+}
+
+export function countChanges(lines: DiffLine[]): { added: number; removed: number } {
+  return {
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length,
+  };
+}
+
+// Keep `context` unchanged lines around each change and collapse the rest
+export function groupHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const keep = lines.map(() => false);
+  lines.forEach((line, index) => {
+    if (line.type === 'equal') return;
+    for (let i = Math.max(0, index - context); i <= Math.min(lines.length - 1, index + context); i++) keep[i] = true;
+  });
+
+  const hunks: DiffHunk[] = [];
+  lines.forEach((line, index) => {
+    const last = hunks[hunks.length - 1];
+    if (keep[index]) {
+      if (last?.type === 'lines') last.lines.push(line);
+      else hunks.push({ type: 'lines', lines: [line] });
+    } else if (last?.type === 'collapsed') {
+      last.count++;
+    } else {
+      hunks.push({ type: 'collapsed', count: 1 });
+    }
+  });
+  return hunks;
+}
+
+// Pair removed and added runs so a side-by-side view lines replacements up
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type === 'equal') {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type !== 'equal') {
+      (lines[index].type === 'removed' ? removed : added).push(lines[index]);
+      index++;
+    }
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i], right: added[i] });
+    }
+  }
+  return rows;
+}
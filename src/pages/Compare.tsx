@@ -0,0 +1,7 @@
+import { ConfigCompare } from '@/components/ConfigCompare';
+
+const Compare = () => {
+  return <ConfigCompare />;
+};
+
+export default Compare;
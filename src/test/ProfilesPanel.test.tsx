@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from "vitest";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { ProfilesPanel } from "@/components/ProfilesPanel";
+import type { Profile } from "@/lib/profileStore";
+
+const pvp: Profile = { id: "pvp", name: "PvP", fileName: "config.json", text: "{}", createdAt: 0, updatedAt: 0 };
+
+vi.mock("@/lib/profileStore", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/profileStore")>()),
+  listProfiles: () => Promise.resolve([pvp]),
+}));
+
+const renderPanel = (hasUnsavedEdits: boolean) => {
+  const onOpenProfile = vi.fn();
+  render(
+    <ProfilesPanel
+      open
+      onOpenChange={() => {}}
+      canSave
+      getCurrent={() => null}
+      onSaved={() => {}}
+      hasUnsavedEdits={hasUnsavedEdits}
+      activeProfileId={null}
+      onOpenProfile={onOpenProfile}
+    />,
+  );
+  return onOpenProfile;
+};
+
+describe("ProfilesPanel", () => {
+  it("switches straight away when nothing would be lost", async () => {
+    const onOpenProfile = renderPanel(false);
+    fireEvent.click(await screen.findByTitle("Switch to this profile"));
+    expect(onOpenProfile).toHaveBeenCalledWith(pvp);
+  });
+
+  it("asks before discarding unsaved edits", async () => {
+    const onOpenProfile = renderPanel(true);
+    fireEvent.click(await screen.findByTitle("Switch to this profile"));
+    expect(onOpenProfile).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText("Cancel"));
+    expect(onOpenProfile).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByTitle("Switch to this profile"));
+    fireEvent.click(screen.getByText("Discard and switch"));
+    expect(onOpenProfile).toHaveBeenCalledWith(pvp);
+  });
+});
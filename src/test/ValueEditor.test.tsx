@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { useState } from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { ValueField } from "@/components/ValueEditor";
+
+// Keeps the edited value in state, as the config editor does
+const Harness = ({ initial }: { initial: unknown }) => {
+  const [value, setValue] = useState(initial);
+  return (
+    <>
+      <ValueField label="$setting" value={value} onChange={setValue} />
+      <output data-testid="value">{JSON.stringify(value)}</output>
+    </>
+  );
+};
+
+const currentValue = () => JSON.parse(screen.getByTestId("value").textContent!);
+
+describe("ValueField arrays", () => {
+  it("keeps a nested row expanded when an item before it is removed", () => {
+    render(<Harness initial={[{ a: 1 }, { b: 2 }]} />);
+    fireEvent.click(screen.getByLabelText("Expand"));
+    // Expand item [1], the { b: 2 } object
+    fireEvent.click(screen.getAllByLabelText("Expand")[1]);
+    expect(screen.getByDisplayValue("b")).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText("Remove item 0"));
+    expect(currentValue()).toEqual([{ b: 2 }]);
+    expect(screen.getByDisplayValue("b")).toBeInTheDocument();
+  });
+
+  it("moves a nested row's expanded state with the item when dragged", () => {
+    const { container } = render(<Harness initial={[{ a: 1 }, { b: 2 }]} />);
+    fireEvent.click(screen.getByLabelText("Expand"));
+    fireEvent.click(screen.getAllByLabelText("Expand")[0]);
+
+    const rows = container.querySelectorAll('[draggable="true"]');
+    const dataTransfer = { effectAllowed: "" };
+    fireEvent.dragStart(rows[0], { dataTransfer });
+    fireEvent.dragOver(rows[1], { dataTransfer });
+    fireEvent.drop(rows[1], { dataTransfer });
+
+    expect(currentValue()).toEqual([{ b: 2 }, { a: 1 }]);
+    expect(screen.getByDisplayValue("a")).toBeInTheDocument();
+    expect(screen.queryByDisplayValue("b")).not.toBeInTheDocument();
+  });
+});
+
+describe("ValueField objects", () => {
+  const expand = () => fireEvent.click(screen.getByLabelText("Expand"));
+
+  it("adds a property of the chosen type, including names found on Object.prototype", () => {
+    render(<Harness initial={{ a: 1 }} />);
+    expand();
+    fireEvent.change(screen.getByPlaceholderText("New property"), { target: { value: "constructor" } });
+    const typeSelects = screen.getAllByLabelText("Value type");
+    fireEvent.change(typeSelects[typeSelects.length - 1], { target: { value: "number" } });
+    fireEvent.click(screen.getByLabelText("Add property"));
+
+    expect(currentValue()).toEqual({ a: 1, constructor: 0 });
+  });
+
+  it("refuses to add a property that already exists", () => {
+    render(<Harness initial={{ a: 1 }} />);
+    expand();
+    fireEvent.change(screen.getByPlaceholderText("New property"), { target: { value: "a" } });
+    expect(screen.getByLabelText("Add property")).toBeDisabled();
+  });
+
+  it("removes a property", () => {
+    render(<Harness initial={{ a: 1, b: 2 }} />);
+    expand();
+    fireEvent.click(screen.getByLabelText("Remove a"));
+    expect(currentValue()).toEqual({ b: 2 });
+  });
+
+  it("renames in place and snaps back when the name is taken", () => {
+    render(<Harness initial={{ a: 1, b: 2 }} />);
+    expand();
+    const rename = (from: string, to: string) => {
+      const key = screen.getByDisplayValue(from);
+      fireEvent.change(key, { target: { value: to } });
+      fireEvent.blur(key);
+    };
+
+    rename("a", "toString");
+    expect(Object.keys(currentValue())).toEqual(["toString", "b"]);
+
+    rename("toString", "b");
+    expect(Object.keys(currentValue())).toEqual(["toString", "b"]);
+    expect(screen.getByDisplayValue("toString")).toBeInTheDocument();
+  });
+});
+
+describe("ValueField types", () => {
+  it("turns a null into an editable value", () => {
+    render(<Harness initial={null} />);
+    fireEvent.change(screen.getByLabelText("Value type"), { target: { value: "string" } });
+    expect(currentValue()).toBe("");
+    fireEvent.change(screen.getByRole("textbox"), { target: { value: "hi" } });
+    expect(currentValue()).toBe("hi");
+  });
+
+  it("carries numbers and booleans over to strings and back", () => {
+    render(<Harness initial={42} />);
+    fireEvent.change(screen.getByLabelText("Value type"), { target: { value: "string" } });
+    expect(currentValue()).toBe("42");
+    fireEvent.change(screen.getByLabelText("Value type"), { target: { value: "number" } });
+    expect(currentValue()).toBe(42);
+    fireEvent.change(screen.getByLabelText("Value type"), { target: { value: "object" } });
+    expect(currentValue()).toEqual({});
+  });
+});
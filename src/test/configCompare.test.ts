@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { compareConfigs, copyKeys } from "@/lib/configCompare";
+
+describe("compareConfigs", () => {
+  const left = {
+    data: { $a: 1, $b: [1, 2], $c: "x", $only_left: true },
+    sections: new Map([["GENERAL", ["$a", "$b"]], ["MISC", ["$c", "$only_left"]]]),
+  };
+  const right = {
+    data: { $b: [1, 3], $a: 1, $c: "x", $only_right: 0 },
+    sections: new Map([["GENERAL", ["$b", "$a", "$only_right"]], ["OTHER", ["$c"]]]),
+  };
+
+  it("aligns keys by name and groups them by section", () => {
+    const sections = compareConfigs(left, right);
+
+    expect(sections.map(section => [section.name, section.rows.map(row => [row.key, row.status]), section.differences])).toEqual([
+      ["GENERAL", [["$a", "same"], ["$b", "changed"], ["$only_right", "rightOnly"]], 2],
+      ["MISC", [["$c", "same"], ["$only_left", "leftOnly"]], 1],
+    ]);
+  });
+
+  it("copies values and removes keys the source side lacks", () => {
+    expect(copyKeys(right.data, left.data, ["$b", "$only_left", "$only_right"])).toEqual({
+      $a: 1,
+      $b: [1, 3],
+      $c: "x",
+      $only_right: 0,
+    });
+  });
+
+  it("treats keys named like Object.prototype members as ordinary keys", () => {
+    const sides = (data: Record<string, unknown>) => ({ data, sections: new Map([["GENERAL", Object.keys(data)]]) });
+    const [section] = compareConfigs(sides({ constructor: 1 }), sides({ toString: 2 }));
+
+    expect(section.rows).toEqual([
+      { key: "constructor", left: 1, right: undefined, status: "leftOnly" },
+      { key: "toString", left: undefined, right: 2, status: "rightOnly" },
+    ]);
+    expect(copyKeys({}, { constructor: 1 }, ["constructor"])).toEqual({});
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { mergeConfigs, resolveConflicts } from "@/lib/configMerge";
+import { parseJsonWithComments, serializeWithComments } from "@/lib/jsonParser";
+
+describe("mergeConfigs", () => {
+  const base = { $bb_version: "1.0", $a: 1, $b: true, $c: "x", $old: 5, $nested: { x: 1, y: 2 } };
+  const ours = { $bb_version: "1.0", $a: 2, $b: false, $c: "x", $old: 5, $nested: { x: 10, y: 2 }, $mine: [1] };
+  const theirs = { $bb_version: "2.0", $a: 1, $b: "auto", $c: "z", $new: 0, $nested: { x: 1, y: 3 } };
+
+  it("carries user changes, adds new keys and drops removed ones", () => {
+    const result = mergeConfigs(base, ours, theirs);
+
+    expect(result.data).toEqual({
+      $bb_version: "2.0",
+      $a: 2,
+      $b: "auto",
+      $c: "z",
+      $new: 0,
+      $nested: { x: 10, y: 3 },
+      $mine: [1],
+    });
+    expect(result.carried).toEqual([["$a"], ["$nested", "x"], ["$mine"]]);
+    expect(result.added).toEqual(["$new"]);
+    expect(result.removed).toEqual(["$old"]);
+  });
+
+  it("reports keys both sides changed as conflicts", () => {
+    const result = mergeConfigs(base, ours, theirs);
+
+    expect(result.conflicts).toEqual([{ path: ["$b"], base: true, ours: false, theirs: "auto" }]);
+    expect(resolveConflicts(result, ["ours"]).$b).toBe(false);
+    expect(resolveConflicts(result, ["theirs"]).$b).toBe("auto");
+  });
+
+  it("treats a user edit to a key the new default removed as a conflict", () => {
+    const result = mergeConfigs({ $gone: 1 }, { $gone: 2 }, {});
+
+    expect(result.conflicts).toEqual([{ path: ["$gone"], base: 1, ours: 2, theirs: undefined }]);
+    expect(result.data).toEqual({});
+    expect(resolveConflicts(result, ["ours"])).toEqual({ $gone: 2 });
+  });
+
+  it("keeps the new default's comments when the merge is written back", () => {
+    const newDefault = [
+      "{",
+      "  // GENERAL",
+      '  "$bb_version": "2.0",',
+      '  "$a": 1 // tweak me',
+      "}",
+    ].join("\n");
+    const parsed = parseJsonWithComments(newDefault);
+    const { data } = mergeConfigs({ $bb_version: "1.0", $a: 1 }, { $bb_version: "1.0", $a: 7 }, parsed.data as Record<string, unknown>);
+
+    expect(serializeWithComments(data, parsed.sections, parsed.document)).toBe(newDefault.replace('"$a": 1', '"$a": 7'));
+  });
+});
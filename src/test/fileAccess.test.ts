@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { hasChangedOnDisk, writeOpenedFile } from "@/lib/fileAccess";
+
+// In-memory stand-in for a FileSystemFileHandle
+const fakeHandle = (initial: string, permission: PermissionState = "granted") => {
+  let contents = initial;
+  let lastModified = 1;
+  const handle = {
+    kind: "file",
+    name: "global_variables.json",
+    getFile: async () => ({ lastModified, text: async () => contents }),
+    queryPermission: async () => permission,
+    requestPermission: async () => permission,
+    createWritable: async () => {
+      let written = "";
+      return {
+        write: async (text: string) => {
+          written += text;
+        },
+        close: async () => {
+          contents = written;
+          lastModified++;
+        },
+      };
+    },
+    touch: () => lastModified++,
+    read: () => contents,
+  };
+  return handle;
+};
+
+describe("fileAccess", () => {
+  it("writes back to the opened file and tracks its modification time", async () => {
+    const handle = fakeHandle("{}");
+    const opened = { handle: handle as unknown as FileSystemFileHandle, lastModified: 1 };
+
+    const saved = await writeOpenedFile(opened, '{ "$a": 1 }');
+
+    expect(handle.read()).toBe('{ "$a": 1 }');
+    expect(await hasChangedOnDisk(saved)).toBe(false);
+    handle.touch();
+    expect(await hasChangedOnDisk(saved)).toBe(true);
+  });
+
+  it("refuses to write without permission", async () => {
+    const handle = fakeHandle("{}", "denied");
+    const opened = { handle: handle as unknown as FileSystemFileHandle, lastModified: 1 };
+
+    await expect(writeOpenedFile(opened, "{}")).rejects.toThrow("Permission to write global_variables.json was denied");
+    expect(handle.read()).toBe("{}");
+  });
+});
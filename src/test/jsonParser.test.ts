@@ -0,0 +1,258 @@
+import { describe, it, expect } from "vitest";
+import { parseJsonWithComments, serializeWithComments, verifySerializedOutput } from "@/lib/jsonParser";
+import { JsoncParseError } from "@/lib/jsonc";
+
+describe("parseJsonWithComments", () => {
+  it("handles block comments, trailing commas and escaped backslashes", () => {
+    const text = [
+      "{",
+      '  "$bb_version": "1.0", /* inline */',
+      "  /* multi",
+      '     "$ignored": true, */',
+      "  // MODS - heavy",
+      '  "$path": "C:\\\\", // trailing comment',
+      '  "$list": [1, 2,],',
+      "}",
+    ].join("\n");
+
+    const { data, sections } = parseJsonWithComments(text);
+
+    expect(data).toEqual({ $bb_version: "1.0", $path: "C:\\", $list: [1, 2] });
+    expect(sections.get("Unsectioned")).toEqual(["$bb_version"]);
+    expect(sections.get("MODS - heavy")).toEqual(["$path", "$list"]);
+  });
+
+  it("groups CATEGORY - subcategory headers into a tree", () => {
+    const text = [
+      "{",
+      '  "$bb_version": "1",',
+      "  // MODS - heavy",
+      '  "$a": 1,',
+      "  // EDITOR - crosshair",
+      '  "$b": 2,',
+      "  // MODS - light",
+      '  "$c": 3,',
+      '  "$d": 4',
+      "}",
+    ].join("\n");
+
+    const { sectionTree } = parseJsonWithComments(text);
+
+    expect(sectionTree).toEqual([
+      { name: "Unsectioned", keyCount: 1, subcategories: [{ name: null, section: "Unsectioned", keys: ["$bb_version"] }] },
+      {
+        name: "MODS",
+        keyCount: 3,
+        subcategories: [
+          { name: "heavy", section: "MODS - heavy", keys: ["$a"] },
+          { name: "light", section: "MODS - light", keys: ["$c", "$d"] },
+        ],
+      },
+      { name: "EDITOR", keyCount: 1, subcategories: [{ name: "crosshair", section: "EDITOR - crosshair", keys: ["$b"] }] },
+    ]);
+  });
+
+  it("keeps comment markers that appear inside strings", () => {
+    const { data } = parseJsonWithComments('{ "$url": "https://example.com/*x*/" }');
+    expect(data).toEqual({ $url: "https://example.com/*x*/" });
+  });
+
+  it("keeps a \"__proto__\" key as an ordinary key through a round trip", () => {
+    const text = '{\n  "__proto__": { "$polluted": true },\n  "$a": 1\n}';
+    const { data, sections, document } = parseJsonWithComments(text);
+
+    expect(Object.getPrototypeOf(data)).toBe(Object.prototype);
+    expect(Object.keys(data)).toEqual(["__proto__", "$a"]);
+    expect((data as Record<string, unknown>).$polluted).toBeUndefined();
+    const edited = { ...(data as Record<string, unknown>), $a: 2 };
+    expect(serializeWithComments(edited, sections, document)).toBe(text.replace('"$a": 1', '"$a": 2'));
+  });
+
+  it("rejects malformed input", () => {
+    expect(() => parseJsonWithComments('{ "$a": 1 "$b": 2 }')).toThrow(/Invalid JSON format/);
+    expect(() => parseJsonWithComments('{ "$a": "open }')).toThrow(/Unterminated string/);
+  });
+
+  it("reports line, column, token and expectation in the original source", () => {
+    const text = '{\n  // comment with "quotes"\n  "$a": 1\n  "$b": 2\n}';
+    try {
+      parseJsonWithComments(text);
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(JsoncParseError);
+      expect((e as JsoncParseError).diagnostic).toMatchObject({
+        line: 4,
+        column: 3,
+        token: '"$b"',
+        expected: "',' or '}'",
+      });
+    }
+  });
+});
+
+describe("serializeWithComments without a document", () => {
+  it("writes keys that no section lists", () => {
+    const sections = new Map([["HUD", ["$a"]]]);
+    const output = serializeWithComments({ $a: 1, namespace: "bb", $extra: true }, sections);
+    expect(parseJsonWithComments(output).data).toEqual({ $a: 1, namespace: "bb", $extra: true });
+  });
+});
+
+describe("section markers", () => {
+  const text = [
+    "{",
+    '  "$a": 1,',
+    "  // ==== Crosshair ====",
+    '  "$b": 2,',
+    "  /* TOOLTIPS */",
+    '  "$c": 3,',
+    "  // 2. Hud settings",
+    '  "$d": 4, // HUD',
+    '  "$e": 5',
+    "}",
+  ].join("\n");
+
+  const sectionsFor = (sectionMarker: string) =>
+    Object.fromEntries(parseJsonWithComments(text, { sectionMarker }).sections);
+
+  it("recognises banner, block and numbered headers", () => {
+    expect(sectionsFor("banner")).toEqual({ Unsectioned: ["$a"], Crosshair: ["$b", "$c", "$d", "$e"] });
+    expect(sectionsFor("block")).toEqual({ Unsectioned: ["$a", "$b"], TOOLTIPS: ["$c", "$d", "$e"] });
+    expect(sectionsFor("numbered")).toEqual({ Unsectioned: ["$a", "$b", "$c"], "2. Hud settings": ["$d", "$e"] });
+  });
+
+  it("ignores trailing comments and supports a no-sections mode", () => {
+    expect(sectionsFor("uppercase")).toEqual({ Unsectioned: ["$a", "$b", "$c", "$d", "$e"] });
+    expect(sectionsFor("none")).toEqual({ Unsectioned: ["$a", "$b", "$c", "$d", "$e"] });
+  });
+});
+
+describe("serializeWithComments with a parsed document", () => {
+  const text = [
+    "{",
+    '  "$bb_version": "1.2.0",',
+    "",
+    "  // HUD - layout",
+    "  // Explains the scale below",
+    '  "$hud_scale": 1.0, // inline note',
+    '  "namespace": "bb",',
+    '  "$offsets": [0, 2],',
+    '  "$removed": true',
+    "}",
+  ].join("\n");
+
+  const roundTrip = (edit: (data: Record<string, unknown>) => void) => {
+    const { data, sections, document } = parseJsonWithComments(text);
+    const copy = JSON.parse(JSON.stringify(data));
+    edit(copy);
+    return serializeWithComments(copy, sections, document);
+  };
+
+  it("returns the source unchanged when nothing was edited", () => {
+    expect(roundTrip(() => {})).toBe(text);
+  });
+
+  it("rewrites only the changed value tokens", () => {
+    const output = roundTrip(data => {
+      data.$hud_scale = 2;
+      (data.$offsets as number[])[1] = 4;
+    });
+    expect(output).toBe(text.replace("1.0, //", "2, //").replace("[0, 2]", "[0, 4]"));
+  });
+
+  it("removes and adds keys without disturbing neighbours", () => {
+    const output = roundTrip(data => {
+      delete data.$removed;
+      data.$added = { nested: [1] };
+    });
+    expect(output).toBe(
+      text.replace('  "$offsets": [0, 2],\n  "$removed": true\n', '  "$offsets": [0, 2],\n  "$added": {\n    "nested": [1]\n  }\n')
+    );
+    expect(parseJsonWithComments(output).data).toMatchObject({ $added: { nested: [1] } });
+  });
+
+  it("keeps non-$ keys such as namespace", () => {
+    const { data, sections } = parseJsonWithComments(text);
+    expect(sections.get("HUD - layout")).toEqual(["$hud_scale", "namespace", "$offsets", "$removed"]);
+    expect(serializeWithComments({ ...(data as object), namespace: "bb2" }, sections)).toContain('"namespace": "bb2"');
+  });
+
+  it("drops the dangling comma when the last key is removed", () => {
+    const output = roundTrip(data => {
+      delete data.$offsets;
+      delete data.$removed;
+    });
+    expect(output).toContain('"namespace": "bb"\n}');
+  });
+});
+
+describe("serializeWithComments edits in place", () => {
+  const edit = (text: string, change: (data: Record<string, unknown>) => void) => {
+    const { data, sections, document } = parseJsonWithComments(text);
+    const copy = JSON.parse(JSON.stringify(data));
+    change(copy);
+    const output = serializeWithComments(copy, sections, document);
+    expect(parseJsonWithComments(output).data).toEqual(copy);
+    return output;
+  };
+
+  it("adds a key before a closing brace that shares the last member's line", () => {
+    const text = ["// Header", "{", "  // GENERAL", '  "$a": 1,', '  "$b": 2 }'].join("\n");
+    const output = edit(text, data => {
+      data.$c = 3;
+    });
+    expect(output).toBe(["// Header", "{", "  // GENERAL", '  "$a": 1,', '  "$b": 2,', '  "$c": 3 }'].join("\n"));
+  });
+
+  it("adds a key to an object written on one line", () => {
+    const output = edit('{\n  "$o": { "x": 1 /* x */ }\n}', data => {
+      data.$o = { x: 1, y: 2 };
+    });
+    expect(output).toBe('{\n  "$o": { "x": 1, /* x */ "y": 2 }\n}');
+  });
+
+  it("removes a member with its trailing block comment", () => {
+    const output = edit('{\n  "$a": 1, /* note */\n  "$b": 2\n}', data => {
+      delete data.$a;
+    });
+    expect(output).toBe('{\n  "$b": 2\n}');
+  });
+
+  it("adds and removes array elements without touching the comments between them", () => {
+    const text = ["{", '  "$list": [', "    // first", "    1,", "    2, // two", "    3", "  ]", "}"].join("\n");
+
+    expect(edit(text, data => (data.$list as number[]).splice(1, 1))).toBe(text.replace("    2, // two\n", ""));
+    expect(edit(text, data => (data.$list as number[]).push(4))).toBe(text.replace("    3\n", "    3,\n    4\n"));
+    expect(edit(text, data => (data.$list as number[]).splice(2, 0, 9))).toBe(text.replace("    3\n", "    9,\n    3\n"));
+  });
+
+  it("edits arrays written on one line", () => {
+    const text = '{\n  "$list": [1, 2, 3]\n}';
+
+    expect(edit(text, data => (data.$list as number[]).pop())).toBe(text.replace("[1, 2, 3]", "[1, 2]"));
+    expect(edit(text, data => (data.$list as number[]).shift())).toBe(text.replace("[1, 2, 3]", "[2, 3]"));
+    expect(edit(text, data => (data.$list as number[]).push(4))).toBe(text.replace("[1, 2, 3]", "[1, 2, 3, 4]"));
+  });
+});
+
+describe("string escaping", () => {
+  const tricky = 'say "hi" \\ C:\\path\nnext\tline\u0001';
+
+  it("escapes quotes, backslashes and control characters", () => {
+    const output = serializeWithComments({ $bb_version: 'v"1', $text: tricky }, new Map());
+    expect(verifySerializedOutput(output, { $bb_version: 'v"1', $text: tricky })).toBeNull();
+  });
+
+  it("keeps the author's \\uXXXX style for unicode", () => {
+    const text = '{\n  "$escaped": "caf\\u00e9",\n  "$literal": "café"\n}';
+    const { data, sections, document } = parseJsonWithComments(text);
+    const output = serializeWithComments({ ...(data as object), $escaped: "naïve", $literal: "naïve" }, sections, document);
+    expect(output).toContain('"$escaped": "na\\u00efve"');
+    expect(output).toContain('"$literal": "naïve"');
+  });
+
+  it("flags output that would not load back", () => {
+    expect(verifySerializedOutput('{ "$a": ', { $a: 1 })).toMatch(/would not load/);
+    expect(verifySerializedOutput('{ "$a": null }', { $a: NaN })).toMatch(/does not match/);
+  });
+});
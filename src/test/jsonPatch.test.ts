@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import { applyOperation, createPatch, parsePatch, previewPatch, JsonPatchError } from "@/lib/jsonPatch";
+
+describe("createPatch", () => {
+  it("produces the operations that turn one config into another", () => {
+    const from = { $a: 1, $b: { x: [1, 2], y: "old" }, $gone: true, "$slash/key": 0 };
+    const to = { $a: 1, $b: { x: [1, 3], y: "new" }, $new: null, "$slash/key": 1 };
+    const patch = createPatch(from, to);
+
+    expect(patch).toEqual([
+      { op: "remove", path: "/$gone" },
+      { op: "replace", path: "/$b/x/1", value: 3 },
+      { op: "replace", path: "/$b/y", value: "new" },
+      { op: "add", path: "/$new", value: null },
+      { op: "replace", path: "/$slash~1key", value: 1 },
+    ]);
+    expect(previewPatch(from, patch).data).toEqual(to);
+  });
+
+  it("replaces arrays whose length changes", () => {
+    expect(createPatch({ $a: [1] }, { $a: [1, 2] })).toEqual([{ op: "replace", path: "/$a", value: [1, 2] }]);
+  });
+
+  it("treats keys named like Object.prototype members as ordinary keys", () => {
+    expect(createPatch({}, { constructor: 1 })).toEqual([{ op: "add", path: "/constructor", value: 1 }]);
+    expect(createPatch({ toString: 1 }, {})).toEqual([{ op: "remove", path: "/toString" }]);
+  });
+});
+
+describe("applyOperation", () => {
+  const doc = { $a: [1, 2], $b: { c: 1 } };
+
+  it("supports every RFC 6902 operation", () => {
+    expect(applyOperation(doc, { op: "add", path: "/$a/-", value: 3 })).toEqual({ $a: [1, 2, 3], $b: { c: 1 } });
+    expect(applyOperation(doc, { op: "add", path: "/$a/0", value: 0 })).toEqual({ $a: [0, 1, 2], $b: { c: 1 } });
+    expect(applyOperation(doc, { op: "remove", path: "/$a/1" })).toEqual({ $a: [1], $b: { c: 1 } });
+    expect(applyOperation(doc, { op: "move", from: "/$b/c", path: "/$c" })).toEqual({ $a: [1, 2], $b: {}, $c: 1 });
+    expect(applyOperation(doc, { op: "copy", from: "/$a", path: "/$b/a" })).toEqual({ $a: [1, 2], $b: { c: 1, a: [1, 2] } });
+    expect(applyOperation(doc, { op: "test", path: "/$b", value: { c: 1 } })).toEqual(doc);
+    expect(doc).toEqual({ $a: [1, 2], $b: { c: 1 } });
+  });
+
+  it("rejects operations that don't fit the document", () => {
+    expect(() => applyOperation(doc, { op: "replace", path: "/$missing", value: 1 })).toThrow(JsonPatchError);
+    expect(() => applyOperation(doc, { op: "remove", path: "/$a/5" })).toThrow('Path "/$a/5" does not exist');
+    expect(() => applyOperation(doc, { op: "test", path: "/$a/0", value: 2 })).toThrow("does not match");
+  });
+});
+
+describe("previewPatch", () => {
+  it("aborts the whole patch when an operation fails", () => {
+    const preview = previewPatch({ $a: 1 }, [
+      { op: "replace", path: "/$a", value: 2 },
+      { op: "replace", path: "/$b", value: 3 },
+      { op: "add", path: "/$c", value: 4 },
+    ]);
+
+    expect(preview.aborted).toBe(true);
+    expect(preview.data).toEqual({ $a: 1 });
+    expect(preview.applied).toBe(0);
+    expect(preview.results[1].error).toBe('Path "/$b" does not exist');
+    expect(preview.results[2].skipped).toBe(true);
+  });
+
+  it("skips failing operations only when asked to", () => {
+    const preview = previewPatch(
+      { $a: 1 },
+      [
+        { op: "replace", path: "/$a", value: 2 },
+        { op: "replace", path: "/$b", value: 3 },
+        { op: "add", path: "/$c", value: 4 },
+      ],
+      { partial: true },
+    );
+
+    expect(preview.aborted).toBe(false);
+    expect(preview.data).toEqual({ $a: 2, $c: 4 });
+    expect(preview.applied).toBe(2);
+    expect(preview.failed).toBe(1);
+  });
+
+  it("never applies operations after a failed test, even partially", () => {
+    const preview = previewPatch(
+      { $a: 1 },
+      [
+        { op: "test", path: "/$a", value: 5 },
+        { op: "replace", path: "/$a", value: 2 },
+      ],
+      { partial: true },
+    );
+
+    expect(preview.data).toEqual({ $a: 1 });
+    expect(preview.applied).toBe(0);
+    expect(preview.results[0].error).toBe('Value at "/$a" does not match');
+    expect(preview.results[1].skipped).toBe(true);
+  });
+});
+
+describe("parsePatch", () => {
+  it("validates the operation list", () => {
+    expect(parsePatch('[{ "op": "remove", "path": "/$a" }]')).toEqual([{ op: "remove", path: "/$a" }]);
+    expect(() => parsePatch('{"op": "remove"}')).toThrow("must be an array");
+    expect(() => parsePatch('[{ "op": "add", "path": "/$a" }]')).toThrow('Operation 1: "value" is required');
+    expect(() => parsePatch('[{ "op": "swap", "path": "/$a" }]')).toThrow(JsonPatchError);
+  });
+});
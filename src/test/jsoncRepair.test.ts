@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { repairJsonc } from "@/lib/jsoncRepair";
+import { parseJsonWithComments } from "@/lib/jsonParser";
+
+describe("repairJsonc", () => {
+  it("fixes missing commas, curly quotes, extra braces and trailing commas", () => {
+    const text = [
+      "{",
+      '  "$a": 1',
+      "  “$b”: “x”,",
+      '  "$c": [1, 2,],',
+      "}",
+      "}",
+    ].join("\n");
+
+    const { text: repaired, fixes, error } = repairJsonc(text);
+
+    expect(error).toBeUndefined();
+    expect(parseJsonWithComments(repaired).data).toEqual({ $a: 1, $b: "x", $c: [1, 2] });
+    expect(fixes.map(fix => [fix.kind, fix.line])).toEqual([
+      ["missingComma", 2],
+      ["smartQuotes", 3],
+      ["trailingComma", 4],
+      ["trailingComma", 4],
+      ["extraClosing", 6],
+    ]);
+  });
+
+  it("leaves curly quotes inside strings alone", () => {
+    const { text, fixes } = repairJsonc('{ "$quote": "say “hi”, ok" }');
+    expect(fixes).toEqual([]);
+    expect(text).toContain("say “hi”, ok");
+  });
+
+  it("reports errors it cannot repair", () => {
+    const { error } = repairJsonc('{ "$a": }');
+    expect(error?.diagnostic.expected).toBe("a value");
+  });
+});
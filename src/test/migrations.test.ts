@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { compareVersions, migrateConfig, MIGRATIONS, type Migration } from "@/lib/migrations";
+
+const registry: Migration[] = [
+  {
+    from: "1.2",
+    to: "1.3",
+    rules: [
+      { type: "rename", from: "$old_name", to: "$new_name" },
+      { type: "remove", key: "$dropped" },
+    ],
+  },
+  {
+    from: "1.3",
+    to: "1.10",
+    rules: [
+      { type: "retype", key: "$scale", to: "number" },
+      { type: "split", key: "$size", into: { $width: value => (value as number[])[0], $height: value => (value as number[])[1] } },
+      { type: "transform", key: "$mode", description: "Mode names are lowercase", transform: value => String(value).toLowerCase() },
+    ],
+  },
+];
+
+describe("compareVersions", () => {
+  it("compares dotted versions numerically", () => {
+    expect(compareVersions("1.10", "1.9")).toBe(1);
+    expect(compareVersions("1.2", "1.2.0")).toBe(0);
+    expect(compareVersions("1.2", "1.3")).toBe(-1);
+  });
+});
+
+describe("migrateConfig", () => {
+  it("chains every migration newer than the file and reports each change", () => {
+    const data = { $bb_version: "1.2", $old_name: true, $dropped: 1, $scale: "2.5", $size: [3, 4], $mode: "FAST", $keep: 0 };
+    const report = migrateConfig(data, registry);
+
+    expect(report?.fromVersion).toBe("1.2");
+    expect(report?.toVersion).toBe("1.10");
+    expect(report?.data).toEqual({
+      $bb_version: "1.10",
+      $new_name: true,
+      $scale: 2.5,
+      $width: 3,
+      $height: 4,
+      $mode: "fast",
+      $keep: 0,
+    });
+    expect(Object.keys(report!.data).slice(0, 2)).toEqual(["$bb_version", "$new_name"]);
+    expect(report?.changes.map(change => [change.version, change.key])).toEqual([
+      ["1.3", "$old_name"],
+      ["1.3", "$dropped"],
+      ["1.10", "$scale"],
+      ["1.10", "$size"],
+      ["1.10", "$mode"],
+      ["1.10", "$bb_version"],
+    ]);
+  });
+
+  it("skips migrations older than the file", () => {
+    const report = migrateConfig({ $bb_version: "1.3", $old_name: true, $scale: "1" }, registry);
+    expect(report?.data).toEqual({ $bb_version: "1.10", $old_name: true, $scale: 1 });
+  });
+
+  it("reports a config older than every migration as unsupported instead of skipping it", () => {
+    const data = { $bb_version: "1.0", $old_name: true };
+    const report = migrateConfig(data, registry);
+
+    expect(report).toEqual({ fromVersion: "1.0", toVersion: "1.0", data, changes: [], unsupported: { from: "1.0", to: "1.2" } });
+  });
+
+  it("stops at a gap between migrations", () => {
+    const gapped: Migration[] = [
+      { from: "1.0", to: "1.1", rules: [{ type: "remove", key: "$a" }] },
+      { from: "1.2", to: "1.3", rules: [{ type: "remove", key: "$b" }] },
+    ];
+    const report = migrateConfig({ $bb_version: "1.0", $a: 1, $b: 2 }, gapped);
+
+    expect(report?.toVersion).toBe("1.1");
+    expect(report?.data).toEqual({ $bb_version: "1.1", $b: 2 });
+    expect(report?.unsupported).toEqual({ from: "1.1", to: "1.2" });
+  });
+
+  it("reports a rename onto an existing key as a conflict and keeps both values", () => {
+    const report = migrateConfig({ $bb_version: "1.2", $old_name: true, $new_name: false }, registry);
+
+    expect(report?.data).toEqual({ $bb_version: "1.10", $old_name: true, $new_name: false });
+    expect(report?.changes[0]).toMatchObject({ key: "$old_name", conflict: true, oldValue: true, newValue: false });
+  });
+
+  it("only applies rules to keys the config has", () => {
+    const inherited: Migration[] = [
+      {
+        from: "1.0",
+        to: "1.1",
+        rules: [
+          { type: "rename", from: "$old", to: "constructor" },
+          { type: "remove", key: "toString" },
+        ],
+      },
+    ];
+    const report = migrateConfig({ $bb_version: "1.0", $old: 1 }, inherited);
+
+    expect(report?.data).toEqual({ $bb_version: "1.1", constructor: 1 });
+    expect(report?.changes.map(change => [change.key, change.conflict])).toEqual([
+      ["$old", undefined],
+      ["$bb_version", undefined],
+    ]);
+  });
+
+  it("does nothing for current or unversioned files", () => {
+    expect(migrateConfig({ $bb_version: "1.10" }, registry)).toBeNull();
+    expect(migrateConfig({ $a: 1 }, registry)).toBeNull();
+    expect(migrateConfig({ $bb_version: "0.1" }, MIGRATIONS)).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { strFromU8, unzipSync } from "fflate";
+import { buildOverridePack, canOverrideFile, diffOverrides, overridePackFileName, parseVersionTriple } from "@/lib/overridePack";
+
+const counter = () => {
+  let n = 0;
+  return () => `uuid-${++n}`;
+};
+
+describe("diffOverrides", () => {
+  it("keeps changed and added keys and reports removed ones", () => {
+    const original = { $a: 1, $b: { x: 1 }, $c: true };
+    const data = { $a: 1, $b: { x: 2 }, $d: "new" };
+    expect(diffOverrides(original, data)).toEqual({ overrides: { $b: { x: 2 }, $d: "new" }, removed: ["$c"] });
+  });
+
+  it("compares own keys only", () => {
+    expect(diffOverrides({ toString: 1 }, { constructor: 2 })).toEqual({ overrides: { constructor: 2 }, removed: ["toString"] });
+  });
+});
+
+describe("parseVersionTriple", () => {
+  it("accepts only x.y.z versions", () => {
+    expect(parseVersionTriple("8.1.2")).toEqual([8, 1, 2]);
+    expect(parseVersionTriple("beta")).toBeNull();
+    expect(parseVersionTriple("1.2")).toBeNull();
+    expect(parseVersionTriple("")).toBeNull();
+  });
+});
+
+describe("canOverrideFile", () => {
+  it("allows global variables files only", () => {
+    expect(canOverrideFile("ui/_global_variables.json")).toBe(true);
+    expect(canOverrideFile("global_variables.json")).toBe(true);
+    expect(canOverrideFile("ui/hud_screen.json")).toBe(false);
+  });
+});
+
+describe("buildOverridePack", () => {
+  it("writes a fresh manifest that depends on the base pack, plus the overrides", () => {
+    const bytes = buildOverridePack(
+      { name: "BB Overrides", baseUuid: "base-uuid", baseVersion: "8.1.0" },
+      { $a: 2 },
+      counter(),
+    );
+    const files = unzipSync(bytes);
+    expect(Object.keys(files).sort()).toEqual(["manifest.json", "ui/_global_variables.json"]);
+
+    const manifest = JSON.parse(strFromU8(files["manifest.json"]));
+    expect(manifest.header).toMatchObject({ name: "BB Overrides", uuid: "uuid-1", version: [1, 0, 0] });
+    expect(manifest.modules).toEqual([{ type: "resources", uuid: "uuid-2", version: [1, 0, 0] }]);
+    expect(manifest.dependencies).toEqual([{ uuid: "base-uuid", version: [8, 1, 0] }]);
+    expect(JSON.parse(strFromU8(files["ui/_global_variables.json"]))).toEqual({ $a: 2 });
+  });
+
+  it("refuses a base version that isn't x.y.z", () => {
+    expect(() => buildOverridePack({ name: "BB Overrides", baseUuid: "base-uuid", baseVersion: "latest" }, { $a: 2 })).toThrow(
+      /not a version/,
+    );
+  });
+});
+
+describe("overridePackFileName", () => {
+  it("strips characters that aren't allowed in file names", () => {
+    expect(overridePackFileName("BB: Overrides")).toBe("BB Overrides.mcpack");
+    expect(overridePackFileName(" / ")).toBe("Overrides.mcpack");
+  });
+});
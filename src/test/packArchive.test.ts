@@ -0,0 +1,43 @@
+// @vitest-environment node
+import { describe, it, expect } from "vitest";
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { isPackArchiveName, readPackArchive, rebuildPackArchive } from "@/lib/packArchive";
+
+const zipped = zipSync({
+  "Better Bedrock/manifest.json": strToU8('{ "header": { "name": "BB", "version": [1, 0, 0] } }'),
+  "Better Bedrock/ui/_global_variables.json": strToU8('{ "$a": 1 }'),
+  "Better Bedrock/ui/hud_screen.json": strToU8('{ "panel": {} }'),
+  "Better Bedrock/pack_icon.png": new Uint8Array([137, 80, 78, 71]),
+});
+
+describe("isPackArchiveName", () => {
+  it("accepts .mcpack and .zip", () => {
+    expect(isPackArchiveName("BB.mcpack")).toBe(true);
+    expect(isPackArchiveName("BB.ZIP")).toBe(true);
+    expect(isPackArchiveName("global_variables.json")).toBe(false);
+  });
+});
+
+describe("readPackArchive", () => {
+  it("finds the pack inside a top-level folder", async () => {
+    const pack = await readPackArchive(zipped, "BB.mcpack");
+    expect(pack.name).toBe("BB");
+    expect(pack.manifest?.version).toBe("1.0.0");
+    expect(pack.configs.map(c => c.path)).toEqual(["ui/_global_variables.json"]);
+    expect(pack.archive?.root).toBe("Better Bedrock/");
+  });
+
+  it("rejects files that are not archives", async () => {
+    await expect(readPackArchive(strToU8("{}"), "broken.zip")).rejects.toThrow(/not a valid archive/);
+  });
+});
+
+describe("rebuildPackArchive", () => {
+  it("replaces edited files and keeps everything else", async () => {
+    const pack = await readPackArchive(zipped, "BB.mcpack");
+    const files = unzipSync(rebuildPackArchive(pack.archive!, { "ui/_global_variables.json": '{ "$a": 2 }' }));
+    expect(strFromU8(files["Better Bedrock/ui/_global_variables.json"])).toBe('{ "$a": 2 }');
+    expect(Array.from(files["Better Bedrock/pack_icon.png"])).toEqual([137, 80, 78, 71]);
+    expect(Object.keys(files)).toHaveLength(4);
+  });
+});
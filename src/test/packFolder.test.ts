@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { buildPackFolder, countVariables, readManifestInfo } from "@/lib/packFolder";
+
+const source = (path: string, text: string) => ({
+  path,
+  getFile: async () => ({ size: text.length, text: async () => text }) as unknown as File,
+});
+
+describe("countVariables", () => {
+  it("counts distinct $ variable declarations", () => {
+    const text = '{ "$a": 1, "panel": { "$b|default": 2, "$a": 3, "text": "$not_a_key" } }';
+    expect(countVariables(text)).toBe(2);
+  });
+});
+
+describe("readManifestInfo", () => {
+  it("reads the header, including manifests with comments", () => {
+    const manifest = `{
+      // pack manifest
+      "header": { "name": "Better Bedrock", "description": "UI pack", "version": [8, 1, 0], "uuid": "abc" }
+    }`;
+    expect(readManifestInfo(manifest)).toEqual({ name: "Better Bedrock", description: "UI pack", version: "8.1.0", uuid: "abc", dependencies: [] });
+    expect(readManifestInfo("not json")).toBeNull();
+  });
+
+  it("lists dependencies on packs and script modules", () => {
+    const manifest = JSON.stringify({
+      header: { name: "BB" },
+      dependencies: [{ uuid: "base", version: [1, 0, 0] }, { module_name: "@minecraft/server", version: "1.8.0" }, "junk"],
+    });
+    expect(readManifestInfo(manifest)?.dependencies).toEqual([
+      { uuid: "base", moduleName: undefined, version: "1.0.0" },
+      { uuid: undefined, moduleName: "@minecraft/server", version: "1.8.0" },
+    ]);
+  });
+});
+
+describe("buildPackFolder", () => {
+  it("lists JSON files that define variables, global variables first", async () => {
+    const pack = await buildPackFolder("BB", [
+      source("manifest.json", '{ "header": { "name": "BB", "version": "1.0" } }'),
+      source("ui/hud_screen.json", '{ "namespace": "hud", "root": { "$visible": true } }'),
+      source("ui/_global_variables.json", '{ "$a": 1, "$b": 2 }'),
+      source("textures/terrain_texture.json", '{ "texture_data": {} }'),
+      source("texts/en_US.lang", '"$x": 1'),
+    ]);
+
+    expect(pack.manifest).toEqual({ name: "BB", version: "1.0", description: undefined, uuid: undefined, dependencies: [] });
+    expect(pack.configs.map(file => [file.path, file.name, file.variableCount])).toEqual([
+      ["ui/_global_variables.json", "_global_variables.json", 2],
+      ["ui/hud_screen.json", "hud_screen.json", 1],
+    ]);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { bumpManifest, bumpVersion } from "@/lib/packManifest";
+
+const manifest = `{
+  // Better Bedrock
+  "format_version": 2,
+  "header": {
+    "name": "BB",
+    "uuid": "old-header",
+    "version": [1, 2, 3]
+  },
+  "modules": [{ "type": "resources", "uuid": "old-module", "version": [1, 2, 3] }]
+}`;
+
+const counter = () => {
+  let n = 0;
+  return () => `uuid-${++n}`;
+};
+
+describe("bumpVersion", () => {
+  it("increments the last part of arrays and strings", () => {
+    expect(bumpVersion([1, 2, 3])).toEqual([1, 2, 4]);
+    expect(bumpVersion("1.0.9")).toBe("1.0.10");
+    expect(bumpVersion(null)).toBeNull();
+  });
+});
+
+describe("bumpManifest", () => {
+  it("bumps the header version and keeps comments", () => {
+    const text = bumpManifest(manifest, { version: true, uuids: false }, counter());
+    expect(text).toContain("// Better Bedrock");
+    expect(text).toContain('"version": [1, 2, 4]');
+    expect(text).toContain('"uuid": "old-header"');
+    // Module versions are left alone
+    expect(text).toContain('"uuid": "old-module", "version": [1, 2, 3]');
+  });
+
+  it("regenerates header and module UUIDs", () => {
+    const text = bumpManifest(manifest, { version: false, uuids: true }, counter());
+    expect(text).toContain('"uuid": "uuid-1"');
+    expect(text).toContain('"uuid": "uuid-2"');
+    expect(text).not.toContain("old-");
+  });
+
+  it("rejects manifests without a header", () => {
+    expect(() => bumpManifest('{ "modules": [] }', { version: true, uuids: false })).toThrow(/no header/);
+  });
+});
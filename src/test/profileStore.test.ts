@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { parseLibrary, serializeLibrary, uniqueProfileName, type Profile } from "@/lib/profileStore";
+
+describe("uniqueProfileName", () => {
+  it("numbers names that are already taken", () => {
+    expect(uniqueProfileName("PvP", ["Building"])).toBe("PvP");
+    expect(uniqueProfileName("PvP", ["PvP", "PvP (2)"])).toBe("PvP (3)");
+  });
+});
+
+describe("profile library", () => {
+  const profile: Profile = {
+    id: "1",
+    name: "PvP",
+    fileName: "global_variables.json",
+    text: '{\n  // GENERAL\n  "$a": 1\n}\n',
+    createdAt: 1,
+    updatedAt: 2,
+  };
+
+  it("round-trips through an exported file", () => {
+    const { id, ...rest } = profile;
+    expect(id).toBe("1");
+    expect(parseLibrary(serializeLibrary([profile]))).toEqual([rest]);
+  });
+
+  it("rejects files that aren't libraries or hold broken configs", () => {
+    expect(() => parseLibrary("[]")).toThrow("not a profile library");
+    const broken = serializeLibrary([{ ...profile, text: '{ "$a": }' }]);
+    expect(() => parseLibrary(broken)).toThrow('Profile "PvP": Invalid JSON format');
+  });
+});
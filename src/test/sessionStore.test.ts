@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { renderHook } from "@testing-library/react";
+import { trimHistory } from "@/lib/sessionStore";
+import { useAutosave } from "@/hooks/use-autosave";
+
+const history = (count: number, index: number) => ({
+  entries: Array.from({ length: count }, (_, step) => ({ label: `step ${step}`, snapshot: step, timestamp: step })),
+  index,
+});
+
+describe("trimHistory", () => {
+  it("keeps the most recent steps and shifts the index", () => {
+    const trimmed = trimHistory(history(10, 9), 4);
+    expect(trimmed.entries.map(entry => entry.snapshot)).toEqual([6, 7, 8, 9]);
+    expect(trimmed.index).toBe(3);
+  });
+
+  it("keeps the current step when it is far back", () => {
+    const trimmed = trimHistory(history(10, 2), 4);
+    expect(trimmed.entries.map(entry => entry.snapshot)).toEqual([2, 3, 4, 5]);
+    expect(trimmed.index).toBe(0);
+  });
+
+  it("leaves short histories alone", () => {
+    expect(trimHistory(history(3, 1), 4)).toEqual(history(3, 1));
+  });
+});
+
+describe("useAutosave", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("saves once the value settles and flushes pending edits on unmount", () => {
+    vi.useFakeTimers();
+    const save = vi.fn(() => Promise.resolve());
+    const { rerender, unmount } = renderHook(({ value }) => useAutosave(value, save, 500), {
+      initialProps: { value: 1 as number | null },
+    });
+
+    rerender({ value: 2 });
+    vi.advanceTimersByTime(499);
+    expect(save).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(save).toHaveBeenCalledWith(2);
+
+    rerender({ value: 3 });
+    unmount();
+    expect(save).toHaveBeenLastCalledWith(3);
+    expect(save).toHaveBeenCalledTimes(2);
+  });
+});
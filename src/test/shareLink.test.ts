@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { buildShareUrl, decodeSharePayload, encodeSharePayload } from "@/lib/shareLink";
+import type { JsonPatchOperation } from "@/lib/jsonPatch";
+
+describe("share links", () => {
+  const operations: JsonPatchOperation[] = [
+    { op: "replace", path: "/$hud_scale", value: 0.8 },
+    { op: "add", path: "/$crosshair", value: { style: "dot", color: "#ff0000" } },
+    { op: "remove", path: "/$old" },
+  ];
+
+  it("round-trips a patch through a URL-safe payload", async () => {
+    const payload = await encodeSharePayload(operations);
+
+    expect(payload).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await decodeSharePayload(payload)).toEqual(operations);
+  });
+
+  it("builds a hash-route link", () => {
+    expect(buildShareUrl("abc", { origin: "https://example.com", pathname: "/editor/" })).toBe(
+      "https://example.com/editor/#/?share=abc",
+    );
+  });
+
+  it("rejects damaged payloads", async () => {
+    const payload = await encodeSharePayload(operations);
+    await expect(decodeSharePayload(payload.slice(0, 10))).rejects.toThrow("damaged or incomplete");
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { countChanges, diffLines, groupHunks, toSplitRows } from "@/lib/textDiff";
+
+describe("diffLines", () => {
+  const oldText = ["a", "b", "c", "d", "e", "f", "g", "h", "i"].join("\n");
+  const newText = ["a", "b", "c", "D", "e", "f", "g", "h", "i", "j"].join("\n");
+
+  it("reports changed lines with numbers on both sides", () => {
+    const lines = diffLines(oldText, newText);
+    expect(countChanges(lines)).toEqual({ added: 2, removed: 1 });
+    expect(lines.filter(line => line.type !== "equal")).toEqual([
+      { type: "removed", text: "d", oldNumber: 4 },
+      { type: "added", text: "D", newNumber: 4 },
+      { type: "added", text: "j", newNumber: 10 },
+    ]);
+  });
+
+  it("collapses unchanged runs outside the context window", () => {
+    const hunks = groupHunks(diffLines(oldText, newText), 1);
+    expect(hunks.map(hunk => (hunk.type === "collapsed" ? hunk.count : hunk.lines.length))).toEqual([2, 4, 3, 2]);
+  });
+
+  it("pairs replacements for side-by-side rows", () => {
+    const rows = toSplitRows(diffLines("x\ny", "x\nz"));
+    expect(rows[1]).toEqual({
+      left: { type: "removed", text: "y", oldNumber: 2 },
+      right: { type: "added", text: "z", newNumber: 2 },
+    });
+  });
+
+  it("shows a change of line ending as a changed line", () => {
+    const lines = diffLines("a\r\nb", "a\nb");
+    expect(countChanges(lines)).toEqual({ added: 1, removed: 1 });
+    expect(lines.filter(line => line.type !== "equal")).toEqual([
+      { type: "removed", text: "a", crlf: true, oldNumber: 1 },
+      { type: "added", text: "a", newNumber: 1 },
+    ]);
+  });
+
+  it("matches lines whose CRLF endings are unchanged", () => {
+    expect(countChanges(diffLines("a\r\nb", "a\r\nb"))).toEqual({ added: 0, removed: 0 });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { MAX_HISTORY, useEditHistory } from "@/hooks/use-edit-history";
+
+describe("useEditHistory", () => {
+  it("undoes, redoes and drops the redo branch on a new edit", () => {
+    const { result } = renderHook(() => useEditHistory<{ a: number }>());
+
+    act(() => result.current.reset({ a: 0 }));
+    act(() => result.current.commit({ a: 1 }, { label: "one", key: "a", oldValue: 0, newValue: 1 }));
+    act(() => result.current.commit({ a: 2 }, { label: "two", key: "a", oldValue: 1, newValue: 2 }));
+    act(() => result.current.undo());
+    expect(result.current.present).toEqual({ a: 1 });
+    expect(result.current.canRedo).toBe(true);
+
+    act(() => result.current.commit({ a: 5 }, { label: "five" }));
+    expect(result.current.entries.map(entry => entry.label)).toEqual(["Opened file", "one", "five"]);
+    expect(result.current.canRedo).toBe(false);
+
+    act(() => result.current.jumpTo(0));
+    expect(result.current.present).toEqual({ a: 0 });
+  });
+
+  it("coalesces rapid edits to the same key", () => {
+    const { result } = renderHook(() => useEditHistory<{ a: string }>());
+
+    act(() => result.current.reset({ a: "" }));
+    act(() => result.current.commit({ a: "h" }, { label: "a", key: "a", oldValue: "", newValue: "h", coalesce: true }));
+    act(() => result.current.commit({ a: "hi" }, { label: "a", key: "a", oldValue: "h", newValue: "hi", coalesce: true }));
+
+    expect(result.current.entries).toHaveLength(2);
+    expect(result.current.entries[1]).toMatchObject({ oldValue: "", newValue: "hi", snapshot: { a: "hi" } });
+  });
+
+  it("drops the oldest steps beyond the limit", () => {
+    const { result } = renderHook(() => useEditHistory<{ a: number }>());
+
+    act(() => result.current.reset({ a: 0 }));
+    act(() => {
+      for (let i = 1; i <= MAX_HISTORY + 5; i++) result.current.commit({ a: i }, { label: `step ${i}` });
+    });
+
+    expect(result.current.entries).toHaveLength(MAX_HISTORY);
+    expect(result.current.index).toBe(MAX_HISTORY - 1);
+    expect(result.current.entries[0].label).toBe("step 6");
+    expect(result.current.present).toEqual({ a: MAX_HISTORY + 5 });
+  });
+});
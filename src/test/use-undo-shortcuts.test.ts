@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { renderHook } from "@testing-library/react";
+import { useUndoShortcuts } from "@/hooks/use-undo-shortcuts";
+
+const press = (target: Element, init: KeyboardEventInit) =>
+  target.dispatchEvent(new KeyboardEvent("keydown", { bubbles: true, ctrlKey: true, ...init }));
+
+const setup = () => {
+  const editor = document.createElement("div");
+  const field = document.createElement("input");
+  editor.appendChild(field);
+  const outside = document.createElement("input");
+  document.body.append(editor, outside);
+
+  const undo = vi.fn();
+  const redo = vi.fn();
+  renderHook(() => useUndoShortcuts({ current: editor }, { enabled: true, undo, redo }));
+  return { editor, field, outside, undo, redo };
+};
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("useUndoShortcuts", () => {
+  it("undoes and redoes from inside the editor", () => {
+    const { field, undo, redo } = setup();
+    press(field, { key: "z" });
+    press(field, { key: "Z", shiftKey: true });
+    press(field, { key: "y" });
+    expect(undo).toHaveBeenCalledTimes(1);
+    expect(redo).toHaveBeenCalledTimes(2);
+  });
+
+  it("leaves fields outside the editor alone", () => {
+    const { outside, undo } = setup();
+    press(outside, { key: "z" });
+    expect(undo).not.toHaveBeenCalled();
+  });
+
+  it("does nothing while a dialog is open", () => {
+    const { editor, undo } = setup();
+    const dialog = document.createElement("div");
+    dialog.setAttribute("role", "dialog");
+    dialog.setAttribute("data-state", "open");
+    document.body.appendChild(dialog);
+
+    press(editor, { key: "z" });
+    expect(undo).not.toHaveBeenCalled();
+  });
+});